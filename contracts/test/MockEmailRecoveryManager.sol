@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.17;
+
+/**
+ * @title MockEmailRecoveryManager - Recovery manager view the subject handler reads
+ * @dev Lets EmailRecoverySubjectHandler.validateRecoverySubject run without a full manager
+ */
+contract MockEmailRecoveryManager {
+    address public emailRecoveryModule;
+
+    constructor(address _emailRecoveryModule) {
+        emailRecoveryModule = _emailRecoveryModule;
+    }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.17;
+
+import {AuthorisedMockSignersBase} from '@redstone-finance/evm-connector/contracts/mocks/AuthorisedMockSignersBase.sol';
+import {TestOracle} from './TestOracle.sol';
+
+/**
+ * @title MockOracle - TestOracle that accepts the Redstone mock signers
+ * @dev Payloads signed offline by MockOraclePayloadProvider are valid here
+ */
+contract MockOracle is TestOracle, AuthorisedMockSignersBase {
+    function getAuthorisedSignerIndex(
+        address signerAddress
+    ) public view virtual override returns (uint8) {
+        return getAuthorisedMockSignerIndex(signerAddress);
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.17;
+
+import {AuthorisedMockSignersBase} from '@redstone-finance/evm-connector/contracts/mocks/AuthorisedMockSignersBase.sol';
+import {ERC20Paymaster, TokenInput} from '../paymasters/ERC20Paymaster.sol';
+
+/**
+ * @title MockOraclePaymaster - ERC20Paymaster that accepts the Redstone mock signers
+ * @dev Prices come from payloads signed offline by MockOraclePayloadProvider
+ */
+contract MockOraclePaymaster is ERC20Paymaster, AuthorisedMockSignersBase {
+    constructor(
+        TokenInput[] memory tokens,
+        address _owner
+    ) ERC20Paymaster(tokens, _owner) {}
+
+    function getAuthorisedSignerIndex(
+        address signerAddress
+    ) public view virtual override returns (uint8) {
+        return getAuthorisedMockSignerIndex(signerAddress);
+    }
+}
@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: GPL-3.0
+pragma solidity ^0.8.17;
+
+import {SignatureDecoder} from '../libraries/SignatureDecoder.sol';
+
+/**
+ * @title Exposes the SignatureDecoder library for the signature codec tests
+ * @author https://getclave.io
+ */
+contract SignatureDecoderTest {
+    function decodeSignature(
+        bytes calldata txSignature
+    ) external pure returns (bytes memory signature, address validator, bytes[] memory hookData) {
+        return SignatureDecoder.decodeSignature(txSignature);
+    }
+
+    function decodeSignatureOnlyHookData(
+        bytes calldata txSignature
+    ) external pure returns (bytes[] memory hookData) {
+        return SignatureDecoder.decodeSignatureOnlyHookData(txSignature);
+    }
+
+    function decodeSignatureNoHookData(
+        bytes memory signatureAndValidator
+    ) external pure returns (bytes memory signature, address validator) {
+        return SignatureDecoder.decodeSignatureNoHookData(signatureAndValidator);
+    }
+
+    function encodeSignature(
+        bytes calldata signature,
+        address validator,
+        bytes[] calldata hookData
+    ) external pure returns (bytes memory) {
+        return abi.encode(signature, validator, hookData);
+    }
+
+    function encodeSignatureOnlyHookData(
+        bytes[] calldata hookData
+    ) external pure returns (bytes memory) {
+        return abi.encode(hookData);
+    }
+
+    function encodeSignatureNoHookData(
+        bytes calldata signature,
+        address validator
+    ) external pure returns (bytes memory) {
+        return abi.encode(signature, validator);
+    }
+}
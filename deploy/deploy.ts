@@ -4,13 +4,15 @@
  * Proprietary and confidential
  */
 import {
-    ZeroAddress,
     zeroPadValue
 } from 'ethers';
 import * as hre from 'hardhat';
 import { Contract, Wallet, utils } from 'zksync-ethers';
+import {
+    AccountInitializerBuilder,
+    getInitializerSelector,
+} from '../deploy/initializer';
 import { deployContract, getWallet, verifyContract } from '../deploy/utils';
-import type { CallStruct } from '../typechain-types/contracts/batch/BatchCaller';
 let fundingWallet: Wallet;
 
 let batchCaller: Contract;
@@ -72,6 +74,7 @@ export default async function (): Promise<void> {
         'AccountFactory',
         [
             await implementation.getAddress(),
+            getInitializerSelector(),
             await registry.getAddress(),
             bytecodeHash,
             fundingWallet.address,
@@ -85,34 +88,12 @@ export default async function (): Promise<void> {
     );
     await registry.setFactory(await factory.getAddress());
 
-    const abiCoder = hre.ethers.AbiCoder.defaultAbiCoder();
-    const call: CallStruct = {
-        target: ZeroAddress,
-        allowFailure: false,
-        value: 0,
-        callData: '0x',
-    };
-
     const salt = initialOwner.padEnd(66, '0');
     console.log("salt", salt);
-    const initializer =
-        '0xb4e581f5' +
-        abiCoder
-            .encode(
-                [
-                    'address',
-                    'address',
-                    'bytes[]',
-                    'tuple(address target,bool allowFailure,uint256 value,bytes calldata)',
-                ],
-                [
-                    initialOwner,
-                    await eoaValidator.getAddress(),
-                    [],
-                    [call.target, call.allowFailure, call.value, call.callData],
-                ],
-            )
-            .slice(2);
+    const initializer = await new AccountInitializerBuilder(
+        initialOwner,
+        await eoaValidator.getAddress(),
+    ).buildFor(factory);
 
     const tx = await factory.deployAccount(salt, initializer);
     await tx.wait();
@@ -0,0 +1,84 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BytesLike, Contract } from 'ethers';
+import { ZeroAddress, concat, getAddress } from 'ethers';
+
+import { AGWAccount__factory } from '../typechain-types';
+import type { CallStruct } from '../typechain-types/contracts/batch/BatchCaller';
+
+// Initial call that does nothing
+export const EMPTY_CALL: CallStruct = {
+    target: ZeroAddress,
+    allowFailure: false,
+    value: 0,
+    callData: '0x',
+};
+
+// Selector of AGWAccount.initialize, from the compiled ABI
+export const getInitializerSelector = (): string => {
+    return AGWAccount__factory.createInterface().getFunction('initialize')
+        .selector;
+};
+
+/**
+ * Checks that the factory calls the initializer the ABI describes
+ * @dev A mismatch makes every deployAccount revert with INVALID_INITIALIZER
+ */
+export const checkInitializerSelector = async (
+    factory: Contract,
+): Promise<void> => {
+    const expected: string = await factory.initializerSelector();
+    const selector = getInitializerSelector();
+
+    if (expected.toLowerCase() !== selector) {
+        throw new Error(
+            `⛔️ Factory expects initializer selector ${expected}, but AGWAccount.initialize is ${selector}`,
+        );
+    }
+};
+
+// Builds the calldata of AGWAccount.initialize for AccountFactory.deployAccount
+export class AccountInitializerBuilder {
+    private initialK1Owner: string;
+    private initialK1Validator: string;
+    private modules: Array<string> = [];
+    private initialCall: CallStruct = EMPTY_CALL;
+
+    constructor(initialK1Owner: string, initialK1Validator: string) {
+        this.initialK1Owner = getAddress(initialK1Owner);
+        this.initialK1Validator = getAddress(initialK1Validator);
+    }
+
+    // Modules are added in order, each one's init is called with its data
+    public module(moduleAddress: string, initData: BytesLike = '0x'): this {
+        this.modules.push(concat([getAddress(moduleAddress), initData]));
+        return this;
+    }
+
+    // Executed by the account once initialized, with the deployment value
+    public call(initialCall: CallStruct): this {
+        this.initialCall = initialCall;
+        return this;
+    }
+
+    public build(): string {
+        return AGWAccount__factory.createInterface().encodeFunctionData(
+            'initialize',
+            [
+                this.initialK1Owner,
+                this.initialK1Validator,
+                this.modules,
+                this.initialCall,
+            ],
+        );
+    }
+
+    // Builds the initializer after checking the factory accepts it
+    public async buildFor(factory: Contract): Promise<string> {
+        await checkInitializerSelector(factory);
+        return this.build();
+    }
+}
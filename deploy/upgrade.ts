@@ -0,0 +1,433 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { Contract, Interface, getAddress } from 'ethers';
+import type { Provider } from 'ethers';
+import { readFileSync, writeFileSync } from 'fs';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+const ERC165_INTERFACE = new Interface([
+    'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+]);
+
+// Layout of the deployed implementation, written by the check-upgrade task
+export const STORAGE_LAYOUT_REFERENCE = 'deploy/storage-layout.json';
+
+// Interfaces AGWAccount.supportsInterface reports, which integrators check
+export const ACCOUNT_INTERFACES = [
+    'contracts/interfaces/IAGWAccount.sol:IAGWAccount',
+    '@openzeppelin/contracts/utils/introspection/IERC165.sol:IERC165',
+    '@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol:IERC721Receiver',
+    '@openzeppelin/contracts/token/ERC1155/IERC1155Receiver.sol:IERC1155Receiver',
+];
+
+// A field of the storage struct, slots are relative to the struct's slot
+export type StorageField = {
+    label: string;
+    type: string;
+    slot: number;
+    offset: number;
+    numberOfBytes: number;
+};
+
+export type StorageLayout = {
+    // Fully qualified name of the library declaring the struct
+    name: string;
+    // Slot the library places the struct at, null if it is not a constant
+    baseSlot: string | null;
+    fields: Array<StorageField>;
+};
+
+export type UpgradeCheckOptions = {
+    // Layout the current implementation was built with
+    previousLayout: StorageLayout;
+    // Defaults to the layout of this build
+    newLayout?: StorageLayout;
+};
+
+export type UpgradeIssue = {
+    kind:
+        | 'baseSlot'
+        | 'removed'
+        | 'moved'
+        | 'retyped'
+        | 'collision'
+        | 'interface';
+    label: string;
+    message: string;
+};
+
+type AstNode = {
+    nodeType: string;
+    name?: string;
+    nodes?: Array<AstNode>;
+    members?: Array<AstNode>;
+    typeDescriptions?: { typeString: string };
+    constant?: boolean;
+    value?: { value?: string };
+    functionSelector?: string;
+};
+
+type StorageType = {
+    numberOfBytes: number;
+    // Types that do not pack with their neighbours
+    ownSlot: boolean;
+};
+
+/**
+ * Reads the layout of a storage struct from the compiler's AST
+ * @dev solc's storageLayout output only covers state variables, while the
+ * account keeps its state in a library struct placed at a constant slot
+ */
+export const getStorageLayout = async (
+    hre: HardhatRuntimeEnvironment,
+    library = 'contracts/libraries/AGWStorage.sol:AGWStorage',
+    struct = 'Layout',
+): Promise<StorageLayout> => {
+    const definition = await findContractDefinition(hre, library);
+    const structDefinition = definition.node.nodes?.find(
+        (node) => node.nodeType === 'StructDefinition' && node.name === struct,
+    );
+    if (structDefinition === undefined) {
+        throw new Error(`⛔️ ${library} does not declare struct ${struct}`);
+    }
+
+    // Slots are filled like solc does: packed from the right, in order
+    const fields: Array<StorageField> = [];
+    let slot = 0;
+    let offset = 0;
+    for (const member of structDefinition.members ?? []) {
+        const type = member.typeDescriptions?.typeString ?? '';
+        const storageType = getStorageType(type);
+
+        if (
+            offset > 0 &&
+            (storageType.ownSlot || offset + storageType.numberOfBytes > 32)
+        ) {
+            slot++;
+            offset = 0;
+        }
+        fields.push({
+            label: member.name ?? '',
+            type,
+            slot,
+            offset,
+            numberOfBytes: storageType.numberOfBytes,
+        });
+
+        if (storageType.ownSlot) {
+            slot += Math.ceil(storageType.numberOfBytes / 32);
+        } else {
+            offset += storageType.numberOfBytes;
+        }
+    }
+
+    const baseSlot = definition.node.nodes?.find(
+        (node) =>
+            node.nodeType === 'VariableDeclaration' &&
+            node.constant === true &&
+            node.typeDescriptions?.typeString === 'bytes32',
+    );
+
+    return {
+        name: definition.name,
+        baseSlot: baseSlot?.value?.value?.toLowerCase() ?? null,
+        fields,
+    };
+};
+
+export const readStorageLayout = (path: string): StorageLayout => {
+    return JSON.parse(readFileSync(path, 'utf8'));
+};
+
+export const writeStorageLayout = (
+    path: string,
+    layout: StorageLayout,
+): void => {
+    writeFileSync(path, JSON.stringify(layout, null, 4) + '\n');
+};
+
+/**
+ * Finds the fields of the previous layout the new layout breaks
+ * @dev Gaps may be taken by new fields, every other field must keep its
+ * label, type and position, and no new field may overlap it
+ */
+export const compareStorageLayouts = (
+    previous: StorageLayout,
+    next: StorageLayout,
+): Array<UpgradeIssue> => {
+    const issues: Array<UpgradeIssue> = [];
+
+    if (previous.baseSlot !== next.baseSlot) {
+        issues.push({
+            kind: 'baseSlot',
+            label: next.name,
+            message: `Storage moved from slot ${previous.baseSlot} to ${next.baseSlot}`,
+        });
+    }
+
+    const previousFields = previous.fields.filter((field) => !isGap(field));
+    for (const field of previousFields) {
+        const nextField = next.fields.find(
+            (candidate) => candidate.label === field.label,
+        );
+
+        if (nextField === undefined) {
+            issues.push({
+                kind: 'removed',
+                label: field.label,
+                message: `${field.label} was removed, its data is left at slot ${field.slot}`,
+            });
+        } else if (
+            nextField.slot !== field.slot ||
+            nextField.offset !== field.offset
+        ) {
+            issues.push({
+                kind: 'moved',
+                label: field.label,
+                message: `${field.label} moved from slot ${field.slot} offset ${field.offset} to slot ${nextField.slot} offset ${nextField.offset}`,
+            });
+        } else if (nextField.type !== field.type) {
+            issues.push({
+                kind: 'retyped',
+                label: field.label,
+                message: `${field.label} changed type from ${field.type} to ${nextField.type}`,
+            });
+        }
+    }
+
+    for (const nextField of next.fields) {
+        if (isGap(nextField)) {
+            continue;
+        }
+        const overlapped = previousFields.find(
+            (field) =>
+                field.label !== nextField.label && overlaps(field, nextField),
+        );
+        if (overlapped !== undefined) {
+            issues.push({
+                kind: 'collision',
+                label: nextField.label,
+                message: `${nextField.label} overlaps ${overlapped.label} at slot ${nextField.slot}`,
+            });
+        }
+    }
+
+    return issues;
+};
+
+// ERC-165 ids of the interfaces, as type(I).interfaceId computes them
+export const getInterfaceIds = async (
+    hre: HardhatRuntimeEnvironment,
+    names: Array<string> = ACCOUNT_INTERFACES,
+): Promise<Record<string, string>> => {
+    const interfaceIds: Record<string, string> = {};
+    for (const name of names) {
+        const definition = await findContractDefinition(hre, name);
+
+        // Inherited functions are not part of the id
+        let interfaceId = 0;
+        for (const node of definition.node.nodes ?? []) {
+            if (node.functionSelector !== undefined) {
+                interfaceId ^= parseInt(node.functionSelector, 16);
+            }
+        }
+        interfaceIds[name] =
+            '0x' + (interfaceId >>> 0).toString(16).padStart(8, '0');
+    }
+    return interfaceIds;
+};
+
+/**
+ * Finds the interfaces the current implementation supports and the new
+ * implementation does not
+ * @dev An implementation without supportsInterface supports none
+ */
+export const compareInterfaces = async (
+    provider: Provider,
+    currentImplementation: string,
+    newImplementation: string,
+    interfaceIds: Record<string, string>,
+): Promise<Array<UpgradeIssue>> => {
+    const issues: Array<UpgradeIssue> = [];
+    for (const [name, interfaceId] of Object.entries(interfaceIds)) {
+        const [current, next] = await Promise.all([
+            supportsInterface(provider, currentImplementation, interfaceId),
+            supportsInterface(provider, newImplementation, interfaceId),
+        ]);
+
+        if (current && !next) {
+            const label = name.split(':').pop() ?? name;
+            issues.push({
+                kind: 'interface',
+                label,
+                message: `${getAddress(newImplementation)} does not support ${label} (${interfaceId})`,
+            });
+        }
+    }
+    return issues;
+};
+
+/**
+ * Checks an upgrade of the account from its current implementation
+ * @dev The previous layout can not be read from this build, it is the one
+ * the current implementation was compiled with
+ */
+export const checkUpgrade = async (
+    hre: HardhatRuntimeEnvironment,
+    provider: Provider,
+    account: Contract,
+    newImplementation: string,
+    options: UpgradeCheckOptions,
+): Promise<Array<UpgradeIssue>> => {
+    const currentImplementation: string =
+        await account.implementationAddress();
+
+    return [
+        ...compareStorageLayouts(
+            options.previousLayout,
+            options.newLayout ?? (await getStorageLayout(hre)),
+        ),
+        ...(await compareInterfaces(
+            provider,
+            currentImplementation,
+            newImplementation,
+            await getInterfaceIds(hre),
+        )),
+    ];
+};
+
+export const assertSafeUpgrade = (issues: Array<UpgradeIssue>): void => {
+    if (issues.length > 0) {
+        throw new Error(
+            `⛔️ Unsafe upgrade:\n${issues
+                .map((issue) => `  - ${issue.message}`)
+                .join('\n')}`,
+        );
+    }
+};
+
+/**
+ * Builds the account's upgradeTo call once checkUpgrade finds no issues
+ * @dev upgradeTo only accepts calls from the account itself, so the call is
+ * sent as an account transaction signed by one of its validators
+ */
+export const populateUpgrade = async (
+    hre: HardhatRuntimeEnvironment,
+    provider: Provider,
+    account: Contract,
+    newImplementation: string,
+    options: UpgradeCheckOptions,
+): Promise<{ to: string; data: string }> => {
+    assertSafeUpgrade(
+        await checkUpgrade(hre, provider, account, newImplementation, options),
+    );
+
+    return {
+        to: await account.getAddress(),
+        data: account.interface.encodeFunctionData('upgradeTo', [
+            newImplementation,
+        ]),
+    };
+};
+
+const findContractDefinition = async (
+    hre: HardhatRuntimeEnvironment,
+    name: string,
+): Promise<{ name: string; node: AstNode }> => {
+    const artifact = await hre.artifacts.readArtifact(name);
+    const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`;
+    const buildInfo = await hre.artifacts.getBuildInfo(fullyQualifiedName);
+    if (buildInfo === undefined) {
+        throw new Error(`⛔️ No build info for ${fullyQualifiedName}`);
+    }
+
+    const ast: AstNode = buildInfo.output.sources[artifact.sourceName].ast;
+    const node = ast.nodes?.find(
+        (candidate) =>
+            candidate.nodeType === 'ContractDefinition' &&
+            candidate.name === artifact.contractName,
+    );
+    if (node === undefined) {
+        throw new Error(`⛔️ ${fullyQualifiedName} is not in its build AST`);
+    }
+    return { name: fullyQualifiedName, node };
+};
+
+const getStorageType = (type: string): StorageType => {
+    if (
+        type.startsWith('mapping(') ||
+        type === 'bytes' ||
+        type === 'string' ||
+        type.endsWith('[]')
+    ) {
+        return { numberOfBytes: 32, ownSlot: true };
+    }
+
+    if (type.endsWith(']')) {
+        const index = type.lastIndexOf('[');
+        const length = Number(type.slice(index + 1, -1));
+        const element = getStorageType(type.slice(0, index));
+        if (element.ownSlot) {
+            return {
+                numberOfBytes: element.numberOfBytes * length,
+                ownSlot: true,
+            };
+        }
+
+        // Elements pack within a slot, but never span two
+        const perSlot = Math.floor(32 / element.numberOfBytes);
+        return {
+            numberOfBytes: Math.ceil(length / perSlot) * 32,
+            ownSlot: true,
+        };
+    }
+
+    const sized = /^(u?int|bytes)(\d+)$/.exec(type);
+    if (sized !== null) {
+        const size = Number(sized[2]);
+        return {
+            numberOfBytes: sized[1] === 'bytes' ? size : size / 8,
+            ownSlot: false,
+        };
+    }
+    if (
+        type === 'address' ||
+        type === 'address payable' ||
+        type.startsWith('contract ')
+    ) {
+        return { numberOfBytes: 20, ownSlot: false };
+    }
+    if (type === 'bool' || type.startsWith('enum ')) {
+        return { numberOfBytes: 1, ownSlot: false };
+    }
+
+    throw new Error(`⛔️ Unsupported storage type ${type}`);
+};
+
+const isGap = (field: StorageField): boolean => {
+    return field.label.startsWith('__gap');
+};
+
+const overlaps = (a: StorageField, b: StorageField): boolean => {
+    const aStart = a.slot * 32 + a.offset;
+    const bStart = b.slot * 32 + b.offset;
+    return (
+        aStart < bStart + b.numberOfBytes && bStart < aStart + a.numberOfBytes
+    );
+};
+
+const supportsInterface = async (
+    provider: Provider,
+    implementation: string,
+    interfaceId: string,
+): Promise<boolean> => {
+    const contract = new Contract(implementation, ERC165_INTERFACE, provider);
+    try {
+        return await contract.supportsInterface(interfaceId);
+    } catch {
+        return false;
+    }
+};
@@ -12,6 +12,7 @@ import type { HardhatUserConfig } from 'hardhat/config';
 import type { NetworkUserConfig } from 'hardhat/types';
 
 import './tasks/deploy';
+import './tasks/upgrade';
 
 dotenv.config();
 
@@ -0,0 +1,116 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { Contract } from 'ethers';
+import { task } from 'hardhat/config';
+
+import {
+    STORAGE_LAYOUT_REFERENCE,
+    assertSafeUpgrade,
+    checkUpgrade,
+    compareStorageLayouts,
+    getStorageLayout,
+    populateUpgrade,
+    readStorageLayout,
+    writeStorageLayout,
+} from '../deploy/upgrade';
+import { getProvider } from '../deploy/utils';
+
+const ACCOUNT_ABI = [
+    'function implementationAddress() view returns (address)',
+    'function upgradeTo(address newImplementation)',
+];
+
+task(
+    'check-upgrade',
+    'Checks that an implementation can replace the one accounts run on',
+)
+    .addFlag(
+        'write',
+        'If true, the layout of this build is written to the reference file',
+    )
+    .addOptionalParam(
+        'reference',
+        'Storage layout JSON of the implementation accounts run on',
+        STORAGE_LAYOUT_REFERENCE,
+    )
+    .addOptionalParam(
+        'account',
+        'Address of an account to check the interfaces of the upgrade for',
+    )
+    .addOptionalParam(
+        'implementation',
+        'Address of the new implementation, required with account',
+    )
+    .setAction(async (taskArgs, hre) => {
+        await hre.run('compile', { quiet: true });
+        const layout = await getStorageLayout(hre);
+
+        if (taskArgs.write) {
+            writeStorageLayout(taskArgs.reference, layout);
+            console.log(`Storage layout written to ${taskArgs.reference}`);
+            return;
+        }
+
+        const previousLayout = readStorageLayout(taskArgs.reference);
+        if (taskArgs.account === undefined) {
+            assertSafeUpgrade(compareStorageLayouts(previousLayout, layout));
+        } else {
+            if (taskArgs.implementation === undefined) {
+                throw new Error(
+                    '⛔️ The new implementation is needed to check an account',
+                );
+            }
+
+            const provider = getProvider(hre);
+            const account = new Contract(
+                taskArgs.account,
+                ACCOUNT_ABI,
+                provider,
+            );
+            assertSafeUpgrade(
+                await checkUpgrade(
+                    hre,
+                    provider,
+                    account,
+                    taskArgs.implementation,
+                    { previousLayout, newLayout: layout },
+                ),
+            );
+        }
+        console.log('Upgrade is safe');
+    });
+
+task(
+    'upgrade-account',
+    'Builds the upgradeTo call of an account after checking the upgrade',
+)
+    .addParam('account', 'Address of the account to upgrade')
+    .addParam('implementation', 'Address of the new implementation')
+    .addOptionalParam(
+        'reference',
+        'Storage layout JSON of the implementation the account runs on',
+        STORAGE_LAYOUT_REFERENCE,
+    )
+    .setAction(async (taskArgs, hre) => {
+        await hre.run('compile', { quiet: true });
+
+        const provider = getProvider(hre);
+        const account = new Contract(taskArgs.account, ACCOUNT_ABI, provider);
+        const upgradeCall = await populateUpgrade(
+            hre,
+            provider,
+            account,
+            taskArgs.implementation,
+            {
+                previousLayout: readStorageLayout(taskArgs.reference),
+                newLayout: await getStorageLayout(hre),
+            },
+        );
+
+        console.log('Upgrade is safe, sign and send from the account:');
+        console.log(`  to: ${upgradeCall.to}`);
+        console.log(`  data: ${upgradeCall.data}`);
+    });
@@ -0,0 +1,257 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { expect } from 'chai';
+import type { ec } from 'elliptic';
+import type { HDNodeWallet } from 'ethers';
+import {
+    TypedDataEncoder,
+    hashMessage,
+    hexlify,
+    randomBytes,
+} from 'ethers';
+import * as hre from 'hardhat';
+import { Provider, Wallet } from 'zksync-ethers';
+import type { Contract } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../deploy/utils';
+import { ClaveDeployer } from '../utils/deployer';
+import {
+    AGWMessageSigner,
+    getAGWMessageHash,
+    verifySignature,
+    verifySignatureLocally,
+} from '../utils/erc1271';
+import { fixture } from '../utils/fixture';
+import { addR1Key } from '../utils/managers/ownermanager';
+import { addR1Validator } from '../utils/managers/validatormanager';
+import { VALIDATORS } from '../utils/names';
+import { encodePublicKey } from '../utils/p256';
+import { K1Signer, PasskeySigner, R1Signer } from '../utils/signers';
+
+describe('AGW Contracts - ERC-1271 signature tests', () => {
+    let deployer: ClaveDeployer;
+    let provider: Provider;
+    let richWallet: Wallet;
+    let eoaValidator: Contract;
+    let teeValidator: Contract;
+    let passkeyValidator: Contract;
+    let account: Contract;
+    let wallet: HDNodeWallet;
+    let keyPair: ec.KeyPair;
+
+    let accountAddress: string;
+    let chainId: bigint;
+
+    before(async () => {
+        richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+        deployer = new ClaveDeployer(hre, richWallet);
+        provider = new Provider(hre.network.config.url, undefined, {
+            cacheTimeout: -1,
+        });
+
+        ({
+            eoaValidator,
+            teeValidator,
+            passkeyValidator,
+            account,
+            wallet,
+            keyPair,
+        } = await fixture(deployer, VALIDATORS.EOA));
+
+        accountAddress = await account.getAddress();
+        chainId = (await provider.getNetwork()).chainId;
+
+        await deployer.fund(100, accountAddress);
+
+        await addR1Validator(
+            provider,
+            account,
+            eoaValidator,
+            teeValidator,
+            wallet,
+        );
+        await addR1Validator(
+            provider,
+            account,
+            eoaValidator,
+            passkeyValidator,
+            wallet,
+        );
+        await addR1Key(
+            provider,
+            account,
+            eoaValidator,
+            encodePublicKey(keyPair),
+            wallet,
+        );
+    });
+
+    it('should hash messages like getEip712Hash', async () => {
+        const signedHash = hexlify(randomBytes(32));
+
+        expect(getAGWMessageHash(accountAddress, chainId, signedHash)).to.eq(
+            await account.getEip712Hash({ signedHash }),
+        );
+    });
+
+    describe('K1 owner', () => {
+        let signer: AGWMessageSigner;
+
+        before(async () => {
+            signer = new AGWMessageSigner(
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+                accountAddress,
+                chainId,
+            );
+        });
+
+        it('should sign messages', async () => {
+            const message = 'Sign in to Abstract';
+            const signature = await signer.signMessage(message);
+
+            expect(
+                await verifySignature(account, hashMessage(message), signature),
+            ).to.be.true;
+            expect(
+                verifySignatureLocally(
+                    accountAddress,
+                    chainId,
+                    hashMessage(message),
+                    signature,
+                    { type: 'k1', address: wallet.address },
+                ),
+            ).to.be.true;
+        });
+
+        it('should sign typed data', async () => {
+            const domain = {
+                name: 'Dapp',
+                version: '1',
+                chainId,
+                verifyingContract: await richWallet.getAddress(),
+            };
+            const types = {
+                Login: [
+                    { name: 'user', type: 'address' },
+                    { name: 'nonce', type: 'uint256' },
+                ],
+            };
+            const value = { user: accountAddress, nonce: 7n };
+
+            const signature = await signer.signTypedData(domain, types, value);
+            const signedHash = TypedDataEncoder.hash(domain, types, value);
+
+            expect(await verifySignature(account, signedHash, signature)).to.be
+                .true;
+            expect(
+                verifySignatureLocally(
+                    accountAddress,
+                    chainId,
+                    signedHash,
+                    signature,
+                    { type: 'k1', address: wallet.address },
+                ),
+            ).to.be.true;
+        });
+
+        it('should reject signatures for another account', async () => {
+            const otherAccount = Wallet.createRandom().address;
+            const signedHash = hexlify(randomBytes(32));
+            const signature = await new AGWMessageSigner(
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+                otherAccount,
+                chainId,
+            ).signHash(signedHash);
+
+            expect(await verifySignature(account, signedHash, signature)).to.be
+                .false;
+            expect(
+                verifySignatureLocally(
+                    accountAddress,
+                    chainId,
+                    signedHash,
+                    signature,
+                    { type: 'k1', address: wallet.address },
+                ),
+            ).to.be.false;
+        });
+
+        it('should reject signatures of other keys', async () => {
+            const signedHash = hexlify(randomBytes(32));
+            const signature = await new AGWMessageSigner(
+                new K1Signer(Wallet.createRandom()),
+                await eoaValidator.getAddress(),
+                accountAddress,
+                chainId,
+            ).signHash(signedHash);
+
+            expect(await verifySignature(account, signedHash, signature)).to.be
+                .false;
+            expect(
+                verifySignatureLocally(
+                    accountAddress,
+                    chainId,
+                    signedHash,
+                    signature,
+                    { type: 'k1', address: wallet.address },
+                ),
+            ).to.be.false;
+        });
+    });
+
+    describe('R1 owner', () => {
+        it('should sign with the TEEValidator', async () => {
+            const signedHash = hexlify(randomBytes(32));
+            const signature = await new AGWMessageSigner(
+                new R1Signer(keyPair),
+                await teeValidator.getAddress(),
+                accountAddress,
+                chainId,
+            ).signHash(signedHash);
+
+            expect(await verifySignature(account, signedHash, signature)).to.be
+                .true;
+            expect(
+                verifySignatureLocally(
+                    accountAddress,
+                    chainId,
+                    signedHash,
+                    signature,
+                    { type: 'r1', publicKey: encodePublicKey(keyPair) },
+                ),
+            ).to.be.true;
+        });
+
+        for (const format of ['compact', 'fat'] as const) {
+            it(`should sign with the PasskeyValidator, ${format} signature`, async () => {
+                const signedHash = hexlify(randomBytes(32));
+                const signature = await new AGWMessageSigner(
+                    new PasskeySigner(keyPair, undefined, format),
+                    await passkeyValidator.getAddress(),
+                    accountAddress,
+                    chainId,
+                ).signHash(signedHash);
+
+                expect(await verifySignature(account, signedHash, signature))
+                    .to.be.true;
+                expect(
+                    verifySignatureLocally(
+                        accountAddress,
+                        chainId,
+                        signedHash,
+                        signature,
+                        {
+                            type: 'passkey',
+                            publicKey: encodePublicKey(keyPair),
+                        },
+                    ),
+                ).to.be.true;
+            });
+        }
+    });
+});
@@ -0,0 +1,359 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { assert, expect } from 'chai';
+import type { HDNodeWallet } from 'ethers';
+import {
+    AbiCoder,
+    Interface,
+    Wallet,
+    ZeroHash,
+    concat,
+    dataSlice,
+} from 'ethers';
+import { readFileSync } from 'fs';
+import * as hre from 'hardhat';
+import type { Contract } from 'zksync-ethers';
+import { Provider } from 'zksync-ethers';
+import type { Wallet as ZkWallet } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../deploy/utils';
+import { ClaveDeployer } from '../utils/deployer';
+import type { DecodedError, RevertedCall } from '../utils/errors';
+import {
+    RevertDecoder,
+    SUITE_ERRORS,
+    decodeRevertData,
+    formatDecodedError,
+} from '../utils/errors';
+import { fixture } from '../utils/fixture';
+import { addModule } from '../utils/managers/modulemanager';
+import { CONTRACT_NAMES, VALIDATORS } from '../utils/names';
+import { OutsideTransactionClient } from '../utils/outside';
+import { ethTransfer } from '../utils/transactions';
+
+const SUITE_INTERFACE = new Interface(
+    Object.keys(SUITE_ERRORS).map((signature) => `error ${signature}`),
+);
+
+function encodeReason(reason: string): string {
+    return concat([
+        '0x08c379a0',
+        AbiCoder.defaultAbiCoder().encode(['string'], [reason]),
+    ]);
+}
+
+describe('AGW Contracts - Error decoder tests', () => {
+    describe('Revert data', () => {
+        it('should know every error of Errors.sol', () => {
+            const source = readFileSync(
+                'contracts/libraries/Errors.sol',
+                'utf8',
+            );
+            const errors = [
+                ...source.matchAll(
+                    /error (\w+)\([^)]*\);(?: \/\/ (0x[0-9a-f]{8}))?/g,
+                ),
+            ];
+            expect(errors.length).to.be.greaterThan(60);
+
+            for (const [, name, selector] of errors) {
+                const fragment = SUITE_INTERFACE.getError(name);
+                expect(fragment, name).not.to.be.null;
+                if (selector !== undefined) {
+                    expect(fragment?.selector, name).to.eq(selector);
+                }
+            }
+        });
+
+        it('should know the errors of the suite contracts', async () => {
+            const names = [
+                CONTRACT_NAMES.IMPLEMENTATION,
+                CONTRACT_NAMES.FACTORY,
+                CONTRACT_NAMES.REGISTRY,
+                VALIDATORS.EOA,
+                VALIDATORS.SESSION,
+                'SocialRecoveryModule',
+                'CloudRecoveryModule',
+            ];
+
+            for (const name of names) {
+                const artifact = await hre.artifacts.readArtifact(name);
+                new Interface(artifact.abi).forEachError((fragment) => {
+                    const signature = fragment.format('sighash');
+                    expect(
+                        SUITE_INTERFACE.getError(signature),
+                        `${name}: ${signature}`,
+                    ).not.to.be.null;
+                });
+            }
+        });
+
+        it('should decode custom errors with a remedy', () => {
+            const decoded = decodeRevertData(
+                SUITE_INTERFACE.encodeErrorResult('USER_LIMIT_REACHED'),
+            );
+
+            expect(decoded.name).to.eq('USER_LIMIT_REACHED');
+            expect(decoded.selector).to.eq('0x07235346');
+            expect(decoded.message).to.eq(
+                'The account used all its sponsored transactions',
+            );
+            expect(decoded.remedy).to.eq('Pay the fee from the account');
+        });
+
+        it('should use the arguments of custom errors', () => {
+            const decoded = decodeRevertData(
+                SUITE_INTERFACE.encodeErrorResult('MsgValueMismatch', [1, 2]),
+            );
+
+            expect(decoded.args).to.deep.eq([1n, 2n]);
+            expect(decoded.message).to.eq(
+                'The transaction sent 1 wei, the calls use 2',
+            );
+        });
+
+        it('should decode string reverts, panics and unknown errors', () => {
+            const known = decodeRevertData(
+                encodeReason('Session is not active'),
+            );
+            expect(known.name).to.eq('Error');
+            expect(known.args).to.deep.eq(['Session is not active']);
+            expect(known.remedy).to.eq('Create a new session');
+
+            const unknown = decodeRevertData(encodeReason('Some reason'));
+            expect(unknown.message).to.eq('Some reason');
+            expect(unknown.remedy).to.be.null;
+
+            const panic = decodeRevertData(
+                concat([
+                    '0x4e487b71',
+                    AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11]),
+                ]),
+            );
+            expect(panic.name).to.eq('Panic');
+            expect(panic.message).to.eq('An arithmetic operation overflowed');
+
+            expect(decodeRevertData('0xdeadbeef').name).to.eq('UnknownError');
+            expect(decodeRevertData('0x').name).to.eq('EmptyRevert');
+        });
+
+        it('should decode malformed data of known selectors as unknown', () => {
+            const mismatch = SUITE_INTERFACE.encodeErrorResult(
+                'MsgValueMismatch',
+                [1, 2],
+            );
+            const truncated = [
+                // Error(string) without its string
+                '0x08c379a0',
+                // Panic(uint256) with half a word
+                dataSlice(concat(['0x4e487b71', ZeroHash]), 0, 20),
+                // MsgValueMismatch(uint256,uint256) with one argument
+                dataSlice(mismatch, 0, 36),
+                '0x08c3',
+            ];
+
+            for (const data of truncated) {
+                const decoded = decodeRevertData(data);
+                expect(decoded.name, data).to.eq('UnknownError');
+                expect(decoded.data).to.eq(data);
+            }
+        });
+    });
+
+    describe('Nested reverts', () => {
+        let deployer: ClaveDeployer;
+        let provider: Provider;
+        let richWallet: ZkWallet;
+        let eoaValidator: Contract;
+        let account: Contract;
+        let wallet: HDNodeWallet;
+
+        let accountAddress: string;
+        let decoder: RevertDecoder;
+
+        const decodeRevert = async (
+            call: RevertedCall,
+        ): Promise<DecodedError | null> => {
+            let error: unknown;
+            try {
+                await provider.call(call);
+            } catch (err) {
+                error = err;
+            }
+            assert(error !== undefined, 'Should revert');
+            return await decoder.decodeCall(call, error);
+        };
+
+        before(async () => {
+            richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+            deployer = new ClaveDeployer(hre, richWallet);
+            provider = new Provider(hre.network.config.url, undefined, {
+                cacheTimeout: -1,
+            });
+
+            ({ eoaValidator, account, wallet } = await fixture(
+                deployer,
+                VALIDATORS.EOA,
+            ));
+            accountAddress = await account.getAddress();
+            await deployer.fund(100, accountAddress);
+
+            decoder = new RevertDecoder(provider);
+        });
+
+        it('should find the failing call of a batch', async () => {
+            const call = {
+                from: accountAddress,
+                to: accountAddress,
+                data: account.interface.encodeFunctionData('batchCall', [
+                    [
+                        {
+                            target: accountAddress,
+                            allowFailure: false,
+                            value: 0,
+                            callData: account.interface.encodeFunctionData(
+                                'k1AddOwner',
+                                [Wallet.createRandom().address],
+                            ),
+                        },
+                        {
+                            target: accountAddress,
+                            allowFailure: false,
+                            value: 0,
+                            callData: account.interface.encodeFunctionData(
+                                'k1RemoveOwner',
+                                [Wallet.createRandom().address],
+                            ),
+                        },
+                    ],
+                ]),
+            };
+
+            const decoded = await decodeRevert(call);
+            expect(decoded?.name).to.eq('CALL_FAILED');
+            expect(decoded?.cause?.name).to.eq('ADDRESS_NOT_EXISTS');
+            expect(decoded?.cause?.origin).to.deep.eq({
+                through: 'batchCall',
+                target: accountAddress,
+                index: 1,
+            });
+        });
+
+        it('should decode outside transactions from non-owners', async () => {
+            const client = new OutsideTransactionClient(provider, richWallet);
+            const outerTx = await client.populateOuter(
+                account,
+                ethTransfer(richWallet.address, 1),
+            );
+            const decoded = await decodeRevert({
+                from: richWallet.address,
+                to: accountAddress,
+                data: String(outerTx.data),
+            });
+
+            expect(decoded?.name).to.eq('UNAUTHORIZED_OUTSIDE_TRANSACTION');
+            expect(decoded?.message).to.eq(
+                'The sender is not a K1 owner of the account',
+            );
+            expect(decoded?.origin).to.be.undefined;
+        });
+
+        it('should format the cause below the error', async () => {
+            const decoded = await decoder.decodeCall(
+                {
+                    from: accountAddress,
+                    to: accountAddress,
+                    data: account.interface.encodeFunctionData('batchCall', [
+                        [
+                            {
+                                target: accountAddress,
+                                allowFailure: false,
+                                value: 0,
+                                callData: account.interface.encodeFunctionData(
+                                    'k1RemoveOwner',
+                                    [wallet.address],
+                                ),
+                            },
+                        ],
+                    ]),
+                },
+                {
+                    data: SUITE_INTERFACE.encodeErrorResult('CALL_FAILED'),
+                },
+            );
+
+            expect(formatDecodedError(decoded!)).to.eq(
+                [
+                    'CALL_FAILED: A call of the batch failed',
+                    '  Remedy: See the cause, or set allowFailure on calls that may fail',
+                    `  Call 0 to ${accountAddress} reverted with`,
+                    '    EMPTY_OWNERS: The last owner can not be removed',
+                    '      Remedy: Add the new owner before removing the old one',
+                ].join('\n'),
+            );
+        });
+
+        describe('Module calls', () => {
+            let mockModule: Contract;
+            let sessionValidator: Contract;
+            let executeData: string;
+
+            before(async () => {
+                mockModule = await deployer.deployCustomContract(
+                    'MockModule',
+                    [],
+                );
+                await addModule(
+                    provider,
+                    account,
+                    eoaValidator,
+                    mockModule,
+                    AbiCoder.defaultAbiCoder().encode(['uint256'], [0]),
+                    wallet,
+                );
+
+                sessionValidator = await deployer.validator(VALIDATORS.SESSION);
+                executeData = account.interface.encodeFunctionData(
+                    'executeFromModule',
+                    [
+                        await sessionValidator.getAddress(),
+                        0,
+                        sessionValidator.interface.encodeFunctionData(
+                            'revokeKeys',
+                            [[ZeroHash]],
+                        ),
+                    ],
+                );
+            });
+
+            it('should find the call of executeFromModule', async () => {
+                const decoded = await decodeRevert({
+                    from: await mockModule.getAddress(),
+                    to: accountAddress,
+                    data: executeData,
+                });
+
+                expect(decoded?.name).to.eq('Error');
+                expect(decoded?.message).to.eq('The session is not active');
+                expect(decoded?.origin).to.deep.eq({
+                    through: 'executeFromModule',
+                    target: await sessionValidator.getAddress(),
+                });
+            });
+
+            it('should keep reverts of the account itself', async () => {
+                const decoded = await decodeRevert({
+                    from: richWallet.address,
+                    to: accountAddress,
+                    data: executeData,
+                });
+
+                expect(decoded?.name).to.eq('NOT_FROM_MODULE');
+                expect(decoded?.origin).to.be.undefined;
+            });
+        });
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { expect } from 'chai';
+import type { HDNodeWallet } from 'ethers';
+import * as hre from 'hardhat';
+import type { Contract } from 'zksync-ethers';
+import { Provider, Wallet } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../deploy/utils';
+import { ClaveDeployer } from '../utils/deployer';
+import { fixture } from '../utils/fixture';
+import type { AccountSnapshot } from '../utils/inspector';
+import {
+    AccountInspector,
+    diffSnapshots,
+    getCodeHashLabels,
+} from '../utils/inspector';
+import { addR1Validator } from '../utils/managers/validatormanager';
+import { VALIDATORS } from '../utils/names';
+import { encodePublicKey, genKey } from '../utils/p256';
+import { SocialRecoveryClient } from '../utils/recovery/client';
+import { K1Signer } from '../utils/signers';
+import { AGWTransactionBuilder } from '../utils/transactions';
+
+describe('AGW Contracts - Account inspector tests', () => {
+    let deployer: ClaveDeployer;
+    let provider: Provider;
+    let richWallet: Wallet;
+    let implementation: Contract;
+    let eoaValidator: Contract;
+    let teeValidator: Contract;
+    let account: Contract;
+    let wallet: HDNodeWallet;
+
+    let inspector: AccountInspector;
+    let socialRecoveryModule: Contract;
+    let recoveryClient: SocialRecoveryClient;
+    let guardian: Wallet;
+    let initial: AccountSnapshot;
+
+    before(async () => {
+        richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+        deployer = new ClaveDeployer(hre, richWallet);
+        provider = new Provider(hre.network.config.url, undefined, {
+            cacheTimeout: -1,
+        });
+
+        ({ implementation, eoaValidator, teeValidator, account, wallet } =
+            await fixture(deployer, VALIDATORS.EOA));
+        await deployer.fund(100, await account.getAddress());
+
+        socialRecoveryModule = await deployer.deployCustomContract(
+            'SocialRecoveryModule',
+            ['TEST', '0', 0, 0],
+        );
+        recoveryClient = new SocialRecoveryClient(
+            provider,
+            socialRecoveryModule,
+        );
+        guardian = new Wallet(Wallet.createRandom().privateKey, provider);
+
+        inspector = new AccountInspector(provider, {
+            codeHashes: await getCodeHashLabels(hre),
+        });
+    });
+
+    it('should snapshot a new account', async () => {
+        initial = await inspector.snapshot(account);
+
+        expect(initial.implementation).to.deep.eq({
+            address: await implementation.getAddress(),
+            label: 'AGWAccount',
+        });
+        expect(initial.k1Owners).to.deep.eq([wallet.address]);
+        expect(initial.r1Owners).to.deep.eq([]);
+        expect(initial.k1Validators).to.deep.eq([
+            { address: await eoaValidator.getAddress(), label: 'EOAValidator' },
+        ]);
+        expect(initial.r1Validators).to.deep.eq([]);
+        expect(initial.modules).to.deep.eq([]);
+        expect(initial.validationHooks).to.deep.eq([]);
+        expect(initial.executionHooks).to.deep.eq([]);
+    });
+
+    it('should prefer address labels', async () => {
+        const labeled = new AccountInspector(provider, {
+            addresses: { [await eoaValidator.getAddress()]: 'Primary' },
+        });
+
+        expect(
+            (await labeled.label(await eoaValidator.getAddress())).label,
+        ).to.eq('Primary');
+        expect((await labeled.label(guardian.address)).label).to.be.null;
+    });
+
+    it('should diff validators and modules', async () => {
+        await addR1Validator(
+            provider,
+            account,
+            eoaValidator,
+            teeValidator,
+            wallet,
+        );
+        const builder = new AGWTransactionBuilder(
+            provider,
+            new K1Signer(wallet),
+            await eoaValidator.getAddress(),
+        );
+        await (
+            await recoveryClient.configure(builder, account, {
+                timelock: 1,
+                threshold: 1,
+                guardians: [guardian.address],
+            })
+        ).wait();
+
+        const snapshot = await inspector.snapshot(account);
+        expect(snapshot.modules).to.deep.eq([
+            {
+                address: await socialRecoveryModule.getAddress(),
+                label: 'SocialRecoveryModule',
+                inited: true,
+                recovering: false,
+            },
+        ]);
+
+        expect(diffSnapshots(initial, snapshot)).to.deep.eq([
+            {
+                kind: 'added',
+                field: 'r1Validators',
+                value: await teeValidator.getAddress(),
+                label: 'TEEValidator',
+            },
+            {
+                kind: 'added',
+                field: 'modules',
+                value: await socialRecoveryModule.getAddress(),
+                label: 'SocialRecoveryModule',
+            },
+        ]);
+        initial = snapshot;
+    });
+
+    it('should diff module state', async () => {
+        await (
+            await recoveryClient.start(
+                await account.getAddress(),
+                encodePublicKey(genKey()),
+                async (data) => [await recoveryClient.sign(guardian, data)],
+            )
+        ).wait();
+
+        const snapshot = await inspector.snapshot(account);
+        expect(diffSnapshots(initial, snapshot)).to.deep.eq([
+            {
+                kind: 'moduleState',
+                module: {
+                    address: await socialRecoveryModule.getAddress(),
+                    label: 'SocialRecoveryModule',
+                },
+                field: 'recovering',
+                before: false,
+                after: true,
+            },
+        ]);
+    });
+});
@@ -278,12 +278,16 @@ describe('AGW Contracts - Hook Manager tests', () => {
                     HOOKS.VALIDATION,
                 );
 
+                // Skip gas estimation, the transaction is expected to revert
                 const tx = await prepareEOATx(
                     provider,
                     account,
                     addHookTx,
                     await eoaValidator.getAddress(),
                     wallet,
+                    [],
+                    undefined,
+                    { gasLimit: 30_000_000 },
                 );
 
                 const txReceipt = await provider.broadcastTransaction(
@@ -366,6 +370,7 @@ describe('AGW Contracts - Hook Manager tests', () => {
                     const hookData = [
                         AbiCoder.defaultAbiCoder().encode(['bool'], [true]),
                     ];
+                    // Skip gas estimation, the transaction is expected to revert
                     const tx = await prepareEOATx(
                         provider,
                         account,
@@ -373,6 +378,8 @@ describe('AGW Contracts - Hook Manager tests', () => {
                         await eoaValidator.getAddress(),
                         wallet,
                         hookData,
+                        undefined,
+                        { gasLimit: 30_000_000 },
                     );
 
                     try {
@@ -392,6 +399,7 @@ describe('AGW Contracts - Hook Manager tests', () => {
                         AbiCoder.defaultAbiCoder().encode(['bool'], [false]),
                     ];
 
+                    // Skip gas estimation, the transaction is expected to revert
                     const tx = await prepareEOATx(
                         provider,
                         account,
@@ -399,6 +407,8 @@ describe('AGW Contracts - Hook Manager tests', () => {
                         await eoaValidator.getAddress(),
                         wallet,
                         hookData,
+                        undefined,
+                        { gasLimit: 30_000_000 },
                     );
 
                     const txReceipt = await provider.broadcastTransaction(
@@ -0,0 +1,260 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { assert, expect } from 'chai';
+import type { HDNodeWallet } from 'ethers';
+import { AbiCoder, Wallet, parseEther } from 'ethers';
+import * as hre from 'hardhat';
+import type { Contract } from 'zksync-ethers';
+import { Provider } from 'zksync-ethers';
+import type { Wallet as ZkWallet } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../../deploy/utils';
+import { ClaveDeployer } from '../../utils/deployer';
+import { fixture } from '../../utils/fixture';
+import {
+    ModuleInstaller,
+    encodeEmailRecoveryInitData,
+    encodeSocialRecoveryInitData,
+    getOpenSessions,
+} from '../../utils/modules';
+import { VALIDATORS } from '../../utils/names';
+import type { SessionSpec } from '../../utils/session/session';
+import {
+    LimitType,
+    SessionStatus,
+    getSessionHash,
+} from '../../utils/session/session';
+import { K1Signer } from '../../utils/signers';
+import { AGWTransactionBuilder } from '../../utils/transactions';
+
+describe('AGW Contracts - Module installer tests', () => {
+    let deployer: ClaveDeployer;
+    let provider: Provider;
+    let richWallet: ZkWallet;
+    let eoaValidator: Contract;
+    let account: Contract;
+    let wallet: HDNodeWallet;
+
+    let accountAddress: string;
+    let installer: ModuleInstaller;
+
+    before(async () => {
+        richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+        deployer = new ClaveDeployer(hre, richWallet);
+        provider = new Provider(hre.network.config.url, undefined, {
+            cacheTimeout: -1,
+        });
+
+        ({ eoaValidator, account, wallet } = await fixture(
+            deployer,
+            VALIDATORS.EOA,
+        ));
+        accountAddress = await account.getAddress();
+        await deployer.fund(100, accountAddress);
+
+        installer = new ModuleInstaller(
+            provider,
+            new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            ),
+        );
+    });
+
+    describe('Init data', () => {
+        it('should encode the social recovery config as a tuple', () => {
+            const guardian = Wallet.createRandom().address;
+            const [config] = AbiCoder.defaultAbiCoder().decode(
+                ['tuple(uint128, uint128, address[])'],
+                encodeSocialRecoveryInitData({
+                    timelock: 10,
+                    threshold: 1,
+                    guardians: [guardian],
+                }),
+            );
+
+            expect(config[0]).to.eq(10n);
+            expect(config[1]).to.eq(1n);
+            expect([...config[2]]).to.deep.eq([guardian]);
+        });
+
+        it('should refuse email guardians without weights', () => {
+            expect(() =>
+                encodeEmailRecoveryInitData({
+                    guardians: [Wallet.createRandom().address],
+                    weights: [],
+                    threshold: 1,
+                    delay: 0,
+                    expiry: 86_400,
+                }),
+            ).to.throw('weight');
+        });
+    });
+
+    describe('Social recovery module', () => {
+        let socialRecoveryModule: Contract;
+        let guardian: string;
+
+        before(async () => {
+            socialRecoveryModule = await deployer.deployCustomContract(
+                'SocialRecoveryModule',
+                ['TEST', '0', 0, 0],
+            );
+            guardian = Wallet.createRandom().address;
+        });
+
+        it('should install with a typed config', async () => {
+            await (
+                await installer.install(
+                    account,
+                    'socialRecovery',
+                    await socialRecoveryModule.getAddress(),
+                    { timelock: 1, threshold: 1, guardians: [guardian] },
+                )
+            ).wait();
+
+            expect(
+                await account.isModule(await socialRecoveryModule.getAddress()),
+            ).to.be.true;
+            expect(
+                await socialRecoveryModule.getGuardians(accountAddress),
+            ).to.deep.eq([guardian]);
+        });
+
+        it('should not install twice', async () => {
+            try {
+                await installer.install(
+                    account,
+                    'socialRecovery',
+                    await socialRecoveryModule.getAddress(),
+                    { timelock: 1, threshold: 1, guardians: [guardian] },
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.include('already installed');
+            }
+        });
+
+        it('should uninstall', async () => {
+            await (
+                await installer.uninstall(
+                    account,
+                    'socialRecovery',
+                    await socialRecoveryModule.getAddress(),
+                )
+            ).wait();
+
+            expect(
+                await account.isModule(await socialRecoveryModule.getAddress()),
+            ).to.be.false;
+            expect(await socialRecoveryModule.isInited(accountAddress)).to.be
+                .false;
+        });
+    });
+
+    describe('Session key validator', () => {
+        let sessionValidator: Contract;
+        let spec: SessionSpec;
+
+        before(async () => {
+            sessionValidator = await deployer.validator(VALIDATORS.SESSION);
+
+            const block = await provider.getBlock('latest');
+            spec = {
+                signer: Wallet.createRandom().address,
+                expiresAt: BigInt(block.timestamp) + 86_400n,
+                feeLimit: {
+                    limitType: LimitType.Lifetime,
+                    limit: parseEther('0.1'),
+                    period: 0n,
+                },
+                callPolicies: [],
+                transferPolicies: [],
+            };
+        });
+
+        it('should install with an initial session', async () => {
+            const validatorAddress = await sessionValidator.getAddress();
+            await (
+                await installer.install(
+                    account,
+                    'sessionKeyValidator',
+                    validatorAddress,
+                    spec,
+                )
+            ).wait();
+
+            expect(await account.isModuleValidator(validatorAddress)).to.be
+                .true;
+            expect(
+                await sessionValidator.sessionStatus(
+                    accountAddress,
+                    getSessionHash(spec),
+                ),
+            ).to.eq(SessionStatus.Active);
+            expect(
+                await getOpenSessions(
+                    provider,
+                    validatorAddress,
+                    accountAddress,
+                ),
+            ).to.deep.eq([getSessionHash(spec)]);
+        });
+
+        it('should refuse to uninstall with open sessions', async () => {
+            try {
+                await installer.uninstall(
+                    account,
+                    'sessionKeyValidator',
+                    await sessionValidator.getAddress(),
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.include(
+                    'Revoke all keys first',
+                );
+            }
+        });
+
+        it('should revoke open sessions and uninstall', async () => {
+            const validatorAddress = await sessionValidator.getAddress();
+            await (
+                await installer.uninstall(
+                    account,
+                    'sessionKeyValidator',
+                    validatorAddress,
+                    { revokeOpenSessions: true },
+                )
+            ).wait();
+
+            expect(await account.isModule(validatorAddress)).to.be.false;
+            expect(await account.isModuleValidator(validatorAddress)).to.be
+                .false;
+            expect(await account.isHook(validatorAddress)).to.be.false;
+            expect(
+                await getOpenSessions(
+                    provider,
+                    validatorAddress,
+                    accountAddress,
+                ),
+            ).to.deep.eq([]);
+        });
+
+        it('should not uninstall a module that is not installed', async () => {
+            try {
+                await installer.uninstall(
+                    account,
+                    'sessionKeyValidator',
+                    await sessionValidator.getAddress(),
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.include('not installed');
+            }
+        });
+    });
+});
@@ -188,12 +188,16 @@ describe('AGW Contracts - Module Manager tests', () => {
                 const addModuleTx = await account.addModule.populateTransaction(
                     moduleAndData,
                 );
+                // Skip gas estimation, the transaction is expected to revert
                 const tx = await prepareEOATx(
                     provider,
                     account,
                     addModuleTx,
                     await eoaValidator.getAddress(),
                     wallet,
+                    [],
+                    undefined,
+                    { gasLimit: 30_000_000 },
                 );
 
                 const txReceipt = await provider.broadcastTransaction(
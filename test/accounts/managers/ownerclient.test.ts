@@ -0,0 +1,200 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { assert, expect } from 'chai';
+import type { ec } from 'elliptic';
+import type { HDNodeWallet } from 'ethers';
+import { Wallet } from 'ethers';
+import * as hre from 'hardhat';
+import type { Contract } from 'zksync-ethers';
+import { Provider } from 'zksync-ethers';
+import type { Wallet as ZkWallet } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../../deploy/utils';
+import { ClaveDeployer } from '../../utils/deployer';
+import { fixture } from '../../utils/fixture';
+import { addR1Validator } from '../../utils/managers/validatormanager';
+import { VALIDATORS } from '../../utils/names';
+import type { P256JsonWebKey } from '../../utils/owners';
+import {
+    OwnerChangeSet,
+    OwnerManagerClient,
+    encodeR1PublicKey,
+} from '../../utils/owners';
+import { encodePublicKey, genKey } from '../../utils/p256';
+import { K1Signer } from '../../utils/signers';
+import { AGWTransactionBuilder } from '../../utils/transactions';
+
+function toJsonWebKey(keyPair: ec.KeyPair): P256JsonWebKey {
+    const publicKey = keyPair.getPublic();
+
+    return {
+        kty: 'EC',
+        crv: 'P-256',
+        x: publicKey.getX().toArrayLike(Buffer, 'be', 32).toString('base64url'),
+        y: publicKey.getY().toArrayLike(Buffer, 'be', 32).toString('base64url'),
+    };
+}
+
+describe('AGW Contracts - Owner management client tests', () => {
+    let deployer: ClaveDeployer;
+    let provider: Provider;
+    let richWallet: ZkWallet;
+    let eoaValidator: Contract;
+    let teeValidator: Contract;
+    let account: Contract;
+    let wallet: HDNodeWallet;
+
+    let client: OwnerManagerClient;
+    let newKeyPair: ec.KeyPair;
+    let newK1Address: string;
+
+    before(async () => {
+        richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+        deployer = new ClaveDeployer(hre, richWallet);
+        provider = new Provider(hre.network.config.url, undefined, {
+            cacheTimeout: -1,
+        });
+
+        ({ eoaValidator, teeValidator, account, wallet } = await fixture(
+            deployer,
+            VALIDATORS.EOA,
+        ));
+        await deployer.fund(1000, await account.getAddress());
+
+        client = new OwnerManagerClient(
+            provider,
+            new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            ),
+        );
+        newKeyPair = genKey();
+        newK1Address = Wallet.createRandom().address;
+    });
+
+    describe('R1 public keys', () => {
+        it('should encode every key form the same way', () => {
+            const expected = encodePublicKey(newKeyPair);
+            const uncompressed = '0x' + newKeyPair.getPublic(false, 'hex');
+            const compressed = '0x' + newKeyPair.getPublic(true, 'hex');
+
+            expect(encodeR1PublicKey(newKeyPair)).to.eq(expected);
+            expect(encodeR1PublicKey(expected)).to.eq(expected);
+            expect(encodeR1PublicKey(uncompressed)).to.eq(expected);
+            expect(encodeR1PublicKey(compressed)).to.eq(expected);
+            expect(encodeR1PublicKey(toJsonWebKey(newKeyPair))).to.eq(
+                expected,
+            );
+        });
+
+        it('should reject keys that are not P-256 points', () => {
+            const offCurve = '0x' + '11'.repeat(64);
+
+            expect(() => encodeR1PublicKey(offCurve)).to.throw();
+            expect(() =>
+                encodeR1PublicKey({
+                    ...toJsonWebKey(newKeyPair),
+                    crv: 'P-384' as 'P-256',
+                }),
+            ).to.throw('Unsupported JWK');
+        });
+    });
+
+    describe('Owner changes', () => {
+        it('should refuse changes no validator can use', async () => {
+            // The account has no R1 validator yet
+            try {
+                await client.send(
+                    account,
+                    new OwnerChangeSet().resetOwners(newKeyPair),
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.include(
+                    'no owner usable by a registered validator',
+                );
+            }
+        });
+
+        it('should refuse removing the last K1 owner', async () => {
+            try {
+                await client.check(
+                    account,
+                    new OwnerChangeSet()
+                        .addR1Owner(newKeyPair)
+                        .removeK1Owner(wallet.address),
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.eq('EMPTY_OWNERS');
+            }
+        });
+
+        it('should batch several changes in one transaction', async () => {
+            await addR1Validator(
+                provider,
+                account,
+                eoaValidator,
+                teeValidator,
+                wallet,
+            );
+
+            const changes = new OwnerChangeSet()
+                .addR1Owner(toJsonWebKey(newKeyPair))
+                .addK1Owner(newK1Address);
+            const tx = await client.populate(account, changes);
+            expect(tx.data?.slice(0, 10)).to.eq(
+                account.interface.getFunction('batchCall')?.selector,
+            );
+
+            await (await client.send(account, changes)).wait();
+
+            expect(await client.owners(account)).to.deep.eq({
+                r1Owners: [encodePublicKey(newKeyPair)],
+                k1Owners: [newK1Address, wallet.address],
+            });
+        });
+
+        it('should refuse changes the account would revert', async () => {
+            try {
+                await client.check(
+                    account,
+                    new OwnerChangeSet().addK1Owner(newK1Address),
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.eq('ADDRESS_ALREADY_EXISTS');
+            }
+        });
+
+        it('should send a single change without a batch', async () => {
+            const changes = new OwnerChangeSet().removeK1Owner(newK1Address);
+            const tx = await client.populate(account, changes);
+            expect(tx.data?.slice(0, 10)).to.eq(
+                account.interface.getFunction('k1RemoveOwner')?.selector,
+            );
+
+            await (await client.send(account, changes)).wait();
+
+            expect(await account.k1IsOwner(newK1Address)).to.be.false;
+        });
+
+        it('should reset to an R1 owner once an R1 validator is set', async () => {
+            await (
+                await client.send(
+                    account,
+                    new OwnerChangeSet().resetOwners(newKeyPair),
+                )
+            ).wait();
+
+            expect(await client.owners(account)).to.deep.eq({
+                r1Owners: [encodePublicKey(newKeyPair)],
+                k1Owners: [],
+            });
+        });
+    });
+});
@@ -0,0 +1,176 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { assert, expect } from 'chai';
+import type { HDNodeWallet } from 'ethers';
+import * as hre from 'hardhat';
+import type { Contract, Wallet } from 'zksync-ethers';
+import { Provider } from 'zksync-ethers';
+
+import type { StorageLayout } from '../../../deploy/upgrade';
+import {
+    STORAGE_LAYOUT_REFERENCE,
+    compareStorageLayouts,
+    getInterfaceIds,
+    getStorageLayout,
+    readStorageLayout,
+} from '../../../deploy/upgrade';
+import { LOCAL_RICH_WALLETS, getWallet } from '../../../deploy/utils';
+import { ClaveDeployer } from '../../utils/deployer';
+import { fixture } from '../../utils/fixture';
+import { checkedUpgradeTx } from '../../utils/managers/upgrademanager';
+import { VALIDATORS } from '../../utils/names';
+
+describe('AGW Contracts - Upgrade check tests', () => {
+    let deployer: ClaveDeployer;
+    let provider: Provider;
+    let richWallet: Wallet;
+    let eoaValidator: Contract;
+    let account: Contract;
+    let wallet: HDNodeWallet;
+
+    let layout: StorageLayout;
+    let mockLayout: StorageLayout;
+    // Layout of the implementation the accounts were deployed with
+    let previousLayout: StorageLayout;
+
+    before(async () => {
+        richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+        deployer = new ClaveDeployer(hre, richWallet);
+        provider = new Provider(hre.network.config.url, undefined, {
+            cacheTimeout: -1,
+        });
+
+        ({ eoaValidator, account, wallet } = await fixture(
+            deployer,
+            VALIDATORS.EOA,
+        ));
+        await deployer.fund(100, await account.getAddress());
+
+        layout = await getStorageLayout(hre);
+        mockLayout = await getStorageLayout(hre, 'MockStorage');
+        previousLayout = readStorageLayout(STORAGE_LAYOUT_REFERENCE);
+    });
+
+    describe('Storage layout', () => {
+        it('should read the AGWStorage layout', () => {
+            expect(layout.baseSlot).to.eq(
+                '0x67641650ff26a63f6b1fb8b1cb96de5bac5c28fcfcca35c9518ea6966d32d42d',
+            );
+
+            const slots = Object.fromEntries(
+                layout.fields.map((field) => [field.label, field.slot]),
+            );
+            expect(slots.k1Owners).to.eq(1);
+            expect(slots.defaultFallbackContract).to.eq(52);
+            expect(slots.r1Validators).to.eq(103);
+            expect(slots.moduleValidators).to.eq(105);
+            expect(slots.hookDataStore).to.eq(208);
+        });
+
+        it('should accept the same layout', () => {
+            expect(compareStorageLayouts(layout, layout)).to.deep.eq([]);
+        });
+
+        it('should keep the layout of the reference', () => {
+            expect(compareStorageLayouts(previousLayout, layout)).to.deep.eq(
+                [],
+            );
+        });
+
+        it('should accept fields added in a gap and flag removed ones', () => {
+            // MockStorage adds testNumber in __gap_1 and drops moduleValidators
+            const issues = compareStorageLayouts(layout, mockLayout);
+
+            expect(
+                issues.map((issue) => [issue.kind, issue.label]),
+            ).to.deep.eq([['removed', 'moduleValidators']]);
+        });
+
+        it('should flag reordered fields', () => {
+            const [r1Owners, k1Owners, ...rest] = layout.fields;
+            const reordered = {
+                ...layout,
+                fields: [
+                    { ...k1Owners, slot: r1Owners.slot },
+                    { ...r1Owners, slot: k1Owners.slot },
+                    ...rest,
+                ],
+            };
+
+            expect(
+                compareStorageLayouts(layout, reordered).map((issue) => [
+                    issue.kind,
+                    issue.label,
+                ]),
+            ).to.deep.eq([
+                ['moved', 'r1Owners'],
+                ['moved', 'k1Owners'],
+                ['collision', 'k1Owners'],
+                ['collision', 'r1Owners'],
+            ]);
+        });
+    });
+
+    describe('Upgrade flow', () => {
+        it('should compute the interface ids like solc', async () => {
+            expect(Object.values(await getInterfaceIds(hre))).to.deep.eq([
+                // IAGWAccount declares no functions of its own
+                '0x00000000',
+                '0x01ffc9a7',
+                '0x150b7a02',
+                '0x4e2312e0',
+            ]);
+        });
+
+        it('should not upgrade to an incompatible implementation', async () => {
+            const mockImplementation = await deployer.deployCustomContract(
+                'MockImplementation',
+                [],
+            );
+            const implementation = await account.implementationAddress();
+
+            try {
+                await checkedUpgradeTx(
+                    hre,
+                    provider,
+                    account,
+                    eoaValidator,
+                    mockImplementation,
+                    wallet,
+                    { previousLayout, newLayout: mockLayout },
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                const message = (err as Error).message;
+                expect(message).to.include('Unsafe upgrade');
+                expect(message).to.include('moduleValidators was removed');
+                expect(message).to.include('does not support IERC165');
+            }
+
+            expect(await account.implementationAddress()).to.eq(
+                implementation,
+            );
+        });
+
+        it('should upgrade to a compatible implementation', async () => {
+            const newImplementation = await deployer.implementation();
+
+            await checkedUpgradeTx(
+                hre,
+                provider,
+                account,
+                eoaValidator,
+                newImplementation,
+                wallet,
+                { previousLayout },
+            );
+
+            expect(await account.implementationAddress()).to.eq(
+                await newImplementation.getAddress(),
+            );
+        });
+    });
+});
@@ -0,0 +1,201 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { expect } from 'chai';
+import { ZeroAddress, keccak256 } from 'ethers';
+import * as hre from 'hardhat';
+import type { Contract, Wallet } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../../deploy/utils';
+import { ClaveDeployer } from '../../utils/deployer';
+import {
+    ACCEPTANCE_SUBJECT_TEMPLATES,
+    RECOVERY_SUBJECT_TEMPLATES,
+    encodeAcceptanceSubjectParams,
+    encodeRecoverySubjectParams,
+    isRecoveryTo,
+    parseAcceptanceSubject,
+    parseRecoverySubject,
+    renderAcceptanceSubject,
+    renderRecoverySubject,
+} from '../../utils/recovery/email';
+
+// Checksummed, the module address has no uppercase letters
+const ACCOUNT = '0x52908400098527886E0F7030069857D2E4169EE7';
+const RECOVERY_MODULE = '0xde709f2102306220921060314715629080e2fb77';
+const NEW_OWNER = '0x1234';
+const NEW_OWNER_HASH =
+    '0x56570de287d73cd1cb6092bb8fdee6173974955fdef345ae579ee9f475ea7432';
+
+describe('AGW Contracts - Email recovery subject tests', () => {
+    describe('Fixtures', () => {
+        it('should render the acceptance subject', () => {
+            expect(renderAcceptanceSubject(ACCOUNT.toLowerCase())).to.eq(
+                `Accept guardian request for ${ACCOUNT}`,
+            );
+        });
+
+        it('should render the recovery subject', () => {
+            expect(keccak256(NEW_OWNER)).to.eq(NEW_OWNER_HASH);
+            expect(
+                renderRecoverySubject(ACCOUNT, RECOVERY_MODULE, NEW_OWNER),
+            ).to.eq(
+                `Recover account ${ACCOUNT} via recovery module ${RECOVERY_MODULE} to owner ${NEW_OWNER_HASH}`,
+            );
+        });
+
+        it('should parse rendered subjects', () => {
+            expect(
+                parseAcceptanceSubject(renderAcceptanceSubject(ACCOUNT)),
+            ).to.deep.eq({ account: ACCOUNT });
+
+            const subject = parseRecoverySubject(
+                renderRecoverySubject(ACCOUNT, RECOVERY_MODULE, NEW_OWNER),
+                RECOVERY_MODULE,
+            );
+            expect(subject.account).to.eq(ACCOUNT);
+            expect(subject.calldataHash).to.eq(NEW_OWNER_HASH);
+            expect(isRecoveryTo(subject, NEW_OWNER)).to.be.true;
+            expect(isRecoveryTo(subject, '0x12')).to.be.false;
+        });
+
+        it('should reject subjects the handler would not match', () => {
+            const subjects = [
+                // Not checksummed
+                `Accept guardian request for ${ACCOUNT.toLowerCase()}`,
+                // Double space
+                `Accept guardian  request for ${ACCOUNT}`,
+                `Accept guardian request for ${ACCOUNT} now`,
+                `accept guardian request for ${ACCOUNT}`,
+            ];
+
+            for (const subject of subjects) {
+                expect(() => parseAcceptanceSubject(subject)).to.throw();
+            }
+        });
+
+        it('should reject invalid recovery params', () => {
+            const rendered = renderRecoverySubject(
+                ACCOUNT,
+                RECOVERY_MODULE,
+                NEW_OWNER,
+            );
+            const cases: Array<[string, string, string]> = [
+                [rendered, ACCOUNT, 'InvalidRecoveryModule'],
+                [
+                    renderRecoverySubject(
+                        ZeroAddress,
+                        RECOVERY_MODULE,
+                        NEW_OWNER,
+                    ),
+                    RECOVERY_MODULE,
+                    'InvalidAccount',
+                ],
+                [
+                    rendered.replace(
+                        NEW_OWNER_HASH,
+                        NEW_OWNER_HASH.toUpperCase(),
+                    ),
+                    RECOVERY_MODULE,
+                    'Invalid new owner hash',
+                ],
+            ];
+
+            for (const [subject, expectedModule, error] of cases) {
+                expect(() =>
+                    parseRecoverySubject(subject, expectedModule),
+                ).to.throw(error);
+            }
+        });
+    });
+
+    describe('Subject handler', () => {
+        let deployer: ClaveDeployer;
+        let richWallet: Wallet;
+        let subjectHandler: Contract;
+        let recoveryManager: Contract;
+
+        before(async () => {
+            richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+            deployer = new ClaveDeployer(hre, richWallet);
+
+            subjectHandler = await deployer.deployCustomContract(
+                'EmailRecoverySubjectHandler',
+                [],
+            );
+            recoveryManager = await deployer.deployCustomContract(
+                'MockEmailRecoveryManager',
+                [RECOVERY_MODULE],
+            );
+        });
+
+        it('should have the templates of the handler', async () => {
+            // Results are array subclasses, compare them as plain arrays
+            const toArrays = (templates: Array<Array<string>>) =>
+                Array.from(templates, (template) => Array.from(template));
+
+            expect(
+                toArrays(await subjectHandler.acceptanceSubjectTemplates()),
+            ).to.deep.eq(ACCEPTANCE_SUBJECT_TEMPLATES);
+            expect(
+                toArrays(await subjectHandler.recoverySubjectTemplates()),
+            ).to.deep.eq(RECOVERY_SUBJECT_TEMPLATES);
+        });
+
+        it('should validate parsed acceptance subjects', async () => {
+            const subject = parseAcceptanceSubject(
+                renderAcceptanceSubject(ACCOUNT),
+            );
+
+            expect(
+                await subjectHandler.validateAcceptanceSubject(
+                    0,
+                    encodeAcceptanceSubjectParams(subject),
+                ),
+            ).to.eq(ACCOUNT);
+        });
+
+        it('should validate parsed recovery subjects', async () => {
+            const subject = parseRecoverySubject(
+                renderRecoverySubject(ACCOUNT, RECOVERY_MODULE, NEW_OWNER),
+                await recoveryManager.emailRecoveryModule(),
+            );
+
+            const [account, calldataHash] =
+                await subjectHandler.validateRecoverySubject(
+                    0,
+                    encodeRecoverySubjectParams(subject),
+                    await recoveryManager.getAddress(),
+                );
+            expect(account).to.eq(ACCOUNT);
+            expect(calldataHash).to.eq(keccak256(NEW_OWNER));
+        });
+
+        it('should revert on the subjects the parser rejects', async () => {
+            const recoveryModule = await recoveryManager.emailRecoveryModule();
+            expect(() =>
+                parseRecoverySubject(
+                    renderRecoverySubject(ACCOUNT, ACCOUNT, NEW_OWNER),
+                    recoveryModule,
+                ),
+            ).to.throw('InvalidRecoveryModule');
+
+            await expect(
+                subjectHandler.validateRecoverySubject(
+                    0,
+                    encodeRecoverySubjectParams({
+                        account: ACCOUNT,
+                        recoveryModule: ACCOUNT,
+                        calldataHash: NEW_OWNER_HASH,
+                    }),
+                    await recoveryManager.getAddress(),
+                ),
+            ).to.be.revertedWithCustomError(
+                subjectHandler,
+                'InvalidRecoveryModule',
+            );
+        });
+    });
+});
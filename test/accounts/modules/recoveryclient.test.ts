@@ -0,0 +1,398 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { assert, expect } from 'chai';
+import type { ec } from 'elliptic';
+import type { HDNodeWallet } from 'ethers';
+import * as hre from 'hardhat';
+import type { Contract } from 'zksync-ethers';
+import { Provider, Wallet } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../../deploy/utils';
+import { ClaveDeployer } from '../../utils/deployer';
+import { fixture } from '../../utils/fixture';
+import { addR1Validator } from '../../utils/managers/validatormanager';
+import { VALIDATORS } from '../../utils/names';
+import { encodePublicKey, genKey } from '../../utils/p256';
+import type { RecoveryData } from '../../utils/recovery/client';
+import {
+    CloudRecoveryClient,
+    SocialRecoveryClient,
+} from '../../utils/recovery/client';
+import type { RecoveryRequest } from '../../utils/recovery/guardians';
+import {
+    GuardianSignatureAggregator,
+    createRecoveryRequest,
+    signRecoveryRequest,
+} from '../../utils/recovery/guardians';
+import { K1Signer } from '../../utils/signers';
+import { AGWTransactionBuilder } from '../../utils/transactions';
+
+describe('AGW Contracts - Recovery client tests', () => {
+    let deployer: ClaveDeployer;
+    let provider: Provider;
+    let richWallet: Wallet;
+    let eoaValidator: Contract;
+    let teeValidator: Contract;
+    let account: Contract;
+    let wallet: HDNodeWallet;
+
+    let accountAddress: string;
+    let builder: AGWTransactionBuilder;
+    let guardians: Array<Wallet>;
+
+    before(async () => {
+        richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+        deployer = new ClaveDeployer(hre, richWallet);
+        provider = new Provider(hre.network.config.url, undefined, {
+            cacheTimeout: -1,
+        });
+
+        ({ eoaValidator, teeValidator, account, wallet } = await fixture(
+            deployer,
+            VALIDATORS.EOA,
+        ));
+
+        accountAddress = await account.getAddress();
+        await deployer.fund(1000, accountAddress);
+
+        await addR1Validator(
+            provider,
+            account,
+            eoaValidator,
+            teeValidator,
+            wallet,
+        );
+
+        builder = new AGWTransactionBuilder(
+            provider,
+            new K1Signer(wallet),
+            await eoaValidator.getAddress(),
+        );
+        guardians = [0, 1, 2].map(
+            () => new Wallet(Wallet.createRandom().privateKey, provider),
+        );
+    });
+
+    describe('Social recovery', () => {
+        let socialRecoveryModule: Contract;
+        let client: SocialRecoveryClient;
+
+        before(async () => {
+            socialRecoveryModule = await deployer.deployCustomContract(
+                'SocialRecoveryModule',
+                ['TEST', '0', 0, 0],
+            );
+            client = new SocialRecoveryClient(provider, socialRecoveryModule);
+        });
+
+        it('should add the module with the config', async () => {
+            const tx = await client.configure(builder, account, {
+                timelock: 1,
+                threshold: 1,
+                guardians: [guardians[0].address],
+            });
+            await tx.wait();
+
+            expect(
+                await account.isModule(await socialRecoveryModule.getAddress()),
+            ).to.be.true;
+            expect(
+                await socialRecoveryModule.getGuardians(accountAddress),
+            ).to.deep.eq([guardians[0].address]);
+        });
+
+        it('should update the config of an added module', async () => {
+            const tx = await client.configure(builder, account, {
+                timelock: 1,
+                threshold: 2,
+                guardians: guardians.map((guardian) => guardian.address),
+            });
+            await tx.wait();
+
+            expect(
+                await socialRecoveryModule.getThreshold(accountAddress),
+            ).to.eq(2n);
+            expect(
+                await socialRecoveryModule.getGuardians(accountAddress),
+            ).to.have.lengthOf(3);
+        });
+
+        it('should not start below the threshold', async () => {
+            try {
+                await client.start(
+                    accountAddress,
+                    encodePublicKey(genKey()),
+                    (data) => client.collect([guardians[0]], data),
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.include('2 required');
+            }
+        });
+
+        it('should start and track the recovery', async () => {
+            const newOwner = encodePublicKey(genKey());
+
+            const tx = await client.start(accountAddress, newOwner, (data) =>
+                client.collect(guardians.slice(0, 2), data),
+            );
+            await tx.wait();
+
+            const status = await client.status(accountAddress);
+            expect(status.recovering).to.be.true;
+            expect(status.newOwner).to.eq(newOwner);
+            expect(status.nonce).to.eq(1n);
+
+            const started = await client.lastRecoveryStarted(accountAddress);
+            expect(started?.transactionHash).to.eq(tx.hash);
+            expect(started?.timelockExpiry).to.eq(status.timelockExpiry);
+        });
+
+        it('should not start a second recovery', async () => {
+            try {
+                await client.start(
+                    accountAddress,
+                    encodePublicKey(genKey()),
+                    (data) => client.collect(guardians, data),
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.include('already');
+            }
+        });
+
+        it('should stop the recovery from the account', async () => {
+            const tx = await client.stop(builder, account);
+            await tx.wait();
+
+            const status = await client.status(accountAddress);
+            expect(status.recovering).to.be.false;
+            expect(status.newOwner).to.be.null;
+            expect(await client.lastRecoveryStarted(accountAddress)).to.not.be
+                .null;
+        });
+
+        it('should collect again when the nonce moves', async () => {
+            const collected: Array<RecoveryData> = [];
+
+            const tx = await client.start(
+                accountAddress,
+                encodePublicKey(genKey()),
+                async (data) => {
+                    collected.push(data);
+                    const signatures = await client.collect(guardians, data);
+
+                    // Another recovery uses the nonce in the meantime
+                    if (collected.length === 1) {
+                        await (
+                            await socialRecoveryModule.startRecovery(
+                                data,
+                                signatures,
+                            )
+                        ).wait();
+                        await (await client.stop(builder, account)).wait();
+                    }
+                    return signatures;
+                },
+            );
+            await tx.wait();
+
+            expect(collected.map((data) => data.nonce)).to.deep.eq([1n, 2n]);
+            expect((await client.status(accountAddress)).nonce).to.eq(3n);
+
+            await (await client.stop(builder, account)).wait();
+        });
+
+        describe('Guardian signature aggregation', () => {
+            let request: RecoveryRequest;
+            let aggregator: GuardianSignatureAggregator;
+
+            before(async () => {
+                request = await createRecoveryRequest(
+                    socialRecoveryModule,
+                    accountAddress,
+                    encodePublicKey(genKey()),
+                );
+                aggregator = new GuardianSignatureAggregator(
+                    provider,
+                    socialRecoveryModule,
+                    request,
+                );
+            });
+
+            it('should refuse signers that are not guardians', async () => {
+                const stranger = new Wallet(
+                    Wallet.createRandom().privateKey,
+                    provider,
+                );
+                try {
+                    await aggregator.add(
+                        signRecoveryRequest(stranger, request),
+                    );
+                    assert(false, 'Should revert');
+                } catch (err) {
+                    expect((err as Error).message).to.include(
+                        'not a guardian',
+                    );
+                }
+            });
+
+            it('should refuse signatures of another guardian', async () => {
+                try {
+                    await aggregator.add({
+                        guardian: guardians[1].address,
+                        signature: signRecoveryRequest(guardians[0], request)
+                            .signature,
+                    });
+                    assert(false, 'Should revert');
+                } catch (err) {
+                    expect((err as Error).message).to.include(
+                        'Invalid signature',
+                    );
+                }
+            });
+
+            it('should dedupe and refuse to submit below threshold', async () => {
+                const signature = signRecoveryRequest(guardians[2], request);
+                await aggregator.add(signature);
+                await aggregator.add(signature);
+
+                expect(aggregator.getSignatures()).to.have.lengthOf(1);
+                expect(await aggregator.isComplete()).to.be.false;
+                try {
+                    await aggregator.submit();
+                    assert(false, 'Should revert');
+                } catch (err) {
+                    expect((err as Error).message).to.include('2 required');
+                }
+            });
+
+            it('should refuse tampered exports', async () => {
+                const serialized = aggregator.toJSON();
+                serialized.data.nonce = (request.data.nonce + 1n).toString();
+
+                try {
+                    await GuardianSignatureAggregator.fromJSON(
+                        provider,
+                        socialRecoveryModule,
+                        JSON.stringify(serialized),
+                    );
+                    assert(false, 'Should revert');
+                } catch (err) {
+                    expect((err as Error).message).to.include('does not match');
+                }
+            });
+
+            it('should submit signatures collected across exports', async () => {
+                // Another device adds its guardian's signature to the export
+                const imported = await GuardianSignatureAggregator.fromJSON(
+                    provider,
+                    socialRecoveryModule,
+                    aggregator.export(),
+                );
+                await imported.add(
+                    signRecoveryRequest(guardians[0], imported.getRequest()),
+                );
+
+                const signers = imported
+                    .getSignatures()
+                    .map((signature) => signature.guardian);
+                expect(signers).to.deep.eq(
+                    [guardians[0].address, guardians[2].address].sort((a, b) =>
+                        BigInt(a) < BigInt(b) ? -1 : 1,
+                    ),
+                );
+                expect(await imported.missingGuardians()).to.deep.eq([
+                    guardians[1].address,
+                ]);
+                expect(await imported.isComplete()).to.be.true;
+
+                await (await imported.submit()).wait();
+
+                const status = await client.status(accountAddress);
+                expect(status.newOwner).to.eq(request.data.newOwner);
+
+                await (await client.stop(builder, account)).wait();
+            });
+        });
+    });
+
+    describe('Cloud recovery', () => {
+        let cloudRecoveryModule: Contract;
+        let client: CloudRecoveryClient;
+        let newKeyPair: ec.KeyPair;
+
+        before(async () => {
+            cloudRecoveryModule = await deployer.deployCustomContract(
+                'CloudRecoveryModule',
+                ['TEST', '0', 0],
+            );
+            client = new CloudRecoveryClient(provider, cloudRecoveryModule);
+            newKeyPair = genKey();
+        });
+
+        it('should add the module and update the guardian', async () => {
+            await (
+                await client.configure(builder, account, guardians[0].address)
+            ).wait();
+            expect(
+                await cloudRecoveryModule.getGuardian(accountAddress),
+            ).to.eq(guardians[0].address);
+
+            await (
+                await client.configure(builder, account, guardians[1].address)
+            ).wait();
+            expect(
+                await cloudRecoveryModule.getGuardian(accountAddress),
+            ).to.eq(guardians[1].address);
+        });
+
+        it('should not execute without a recovery', async () => {
+            try {
+                await client.execute(accountAddress);
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.include('No recovery');
+            }
+        });
+
+        it('should need the signature of the guardian', async () => {
+            try {
+                await client.start(
+                    accountAddress,
+                    encodePublicKey(newKeyPair),
+                    async (data) => [await client.sign(guardians[0], data)],
+                );
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.include('cloud guardian');
+            }
+        });
+
+        it('should start and execute the recovery', async () => {
+            await (
+                await client.start(
+                    accountAddress,
+                    encodePublicKey(newKeyPair),
+                    async (data) => [await client.sign(guardians[1], data)],
+                )
+            ).wait();
+
+            // The module has no timelock
+            const status = await client.status(accountAddress);
+            expect(status.executable).to.be.true;
+
+            await (await client.execute(accountAddress)).wait();
+
+            expect((await client.status(accountAddress)).recovering).to.be
+                .false;
+            expect(await account.r1ListOwners()).to.deep.eq([
+                encodePublicKey(newKeyPair),
+            ]);
+            expect(await account.k1ListOwners()).to.deep.eq([]);
+        });
+    });
+});
@@ -0,0 +1,336 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { expect } from 'chai';
+import type { HDNodeWallet } from 'ethers';
+import { AbiCoder, concat, hexlify, randomBytes } from 'ethers';
+import * as hre from 'hardhat';
+import { Provider, Wallet } from 'zksync-ethers';
+import type { Contract } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../deploy/utils';
+import { ClaveDeployer } from '../utils/deployer';
+import { fixture } from '../utils/fixture';
+import { addHook } from '../utils/managers/hookmanager';
+import { HOOKS, VALIDATORS } from '../utils/names';
+import {
+    decodeERC1271Signature,
+    decodeOutsideSignature,
+    decodeTransactionSignature,
+    encodeERC1271Signature,
+    encodeOutsideSignature,
+    encodeTransactionSignature,
+    labelHookData,
+    orderHookData,
+} from '../utils/signatures';
+import { ethTransfer, prepareEOATx } from '../utils/transactions';
+
+describe('AGW Contracts - Signature codec tests', () => {
+    let deployer: ClaveDeployer;
+    let provider: Provider;
+    let richWallet: Wallet;
+    let decoder: Contract;
+
+    const signature = hexlify(randomBytes(65));
+    const validator = Wallet.createRandom().address;
+    const hookData = [hexlify(randomBytes(32)), '0x', hexlify(randomBytes(7))];
+
+    before(async () => {
+        richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+        deployer = new ClaveDeployer(hre, richWallet);
+        provider = new Provider(hre.network.config.url, undefined, {
+            cacheTimeout: -1,
+        });
+
+        decoder = await deployer.deployCustomContract(
+            'SignatureDecoderTest',
+            [],
+        );
+    });
+
+    describe('Transaction signature', () => {
+        it('should be decoded by SignatureDecoder', async () => {
+            const encoded = encodeTransactionSignature(
+                signature,
+                validator,
+                hookData,
+            );
+
+            const [decodedSignature, decodedValidator, decodedHookData] =
+                await decoder.decodeSignature(encoded);
+
+            expect(decodedSignature).to.eq(signature);
+            expect(decodedValidator).to.eq(validator);
+            expect(decodedHookData).to.deep.eq(hookData);
+        });
+
+        it('should decode what Solidity encodes', async () => {
+            const encoded = await decoder.encodeSignature(
+                signature,
+                validator,
+                hookData,
+            );
+
+            expect(decodeTransactionSignature(encoded)).to.deep.eq({
+                signature,
+                validator,
+                hookData,
+            });
+        });
+
+        it('should reject truncated signatures', async () => {
+            const encoded = encodeTransactionSignature(
+                signature,
+                validator,
+                hookData,
+            );
+
+            expect(() =>
+                decodeTransactionSignature(encoded.slice(0, -64)),
+            ).to.throw('Malformed transaction signature');
+        });
+
+        it('should warn on signatures with trailing bytes', async () => {
+            const encoded = concat([
+                encodeTransactionSignature(signature, validator),
+                '0xc1ae',
+            ]);
+            const warnings: Array<string> = [];
+
+            // SignatureDecoder ignores the trailing bytes
+            const [decodedSignature, decodedValidator, decodedHookData] =
+                await decoder.decodeSignature(encoded);
+            expect(
+                decodeTransactionSignature(encoded, (warning) =>
+                    warnings.push(warning),
+                ),
+            ).to.deep.eq({
+                signature: decodedSignature,
+                validator: decodedValidator,
+                hookData: Array.from(decodedHookData),
+            });
+            expect(warnings).to.deep.eq([
+                'Non-canonical transaction signature: not a canonical (bytes,address,bytes[]) encoding',
+            ]);
+        });
+
+        it('should reject invalid validator addresses', async () => {
+            expect(() =>
+                encodeTransactionSignature(signature, '0xc1ae'),
+            ).to.throw('Invalid validator address');
+        });
+    });
+
+    describe('ERC-1271 signature', () => {
+        it('should be decoded by SignatureDecoder', async () => {
+            const encoded = encodeERC1271Signature(signature, validator);
+
+            const [decodedSignature, decodedValidator] =
+                await decoder.decodeSignatureNoHookData(encoded);
+
+            expect(decodedSignature).to.eq(signature);
+            expect(decodedValidator).to.eq(validator);
+        });
+
+        it('should decode what Solidity encodes', async () => {
+            const encoded = await decoder.encodeSignatureNoHookData(
+                signature,
+                validator,
+            );
+
+            expect(decodeERC1271Signature(encoded)).to.deep.eq({
+                signature,
+                validator,
+            });
+        });
+
+        it('should decode a transaction signature with a warning', async () => {
+            const encoded = encodeTransactionSignature(
+                signature,
+                validator,
+                hookData,
+            );
+            const warnings: Array<string> = [];
+
+            // SignatureDecoder reads the leading signature and validator
+            const [decodedSignature, decodedValidator] =
+                await decoder.decodeSignatureNoHookData(encoded);
+            expect(
+                decodeERC1271Signature(encoded, (warning) =>
+                    warnings.push(warning),
+                ),
+            ).to.deep.eq({
+                signature: decodedSignature,
+                validator: decodedValidator,
+            });
+            expect(warnings).to.have.lengthOf(1);
+            expect(warnings[0]).to.include('Non-canonical ERC-1271 signature');
+        });
+    });
+
+    describe('Outside transaction signature', () => {
+        it('should be decoded by SignatureDecoder', async () => {
+            const encoded = encodeOutsideSignature(hookData);
+
+            expect(
+                await decoder.decodeSignatureOnlyHookData(encoded),
+            ).to.deep.eq(hookData);
+        });
+
+        it('should decode what Solidity encodes', async () => {
+            const encoded = await decoder.encodeSignatureOnlyHookData(
+                hookData,
+            );
+
+            expect(decodeOutsideSignature(encoded)).to.deep.eq(hookData);
+        });
+
+        it('should reject non hex input', async () => {
+            expect(() => decodeOutsideSignature('c1ae')).to.throw(
+                'Malformed outside transaction signature: not a hex string',
+            );
+        });
+    });
+
+    describe('Hook data', () => {
+        let eoaValidator: Contract;
+        let account: Contract;
+        let wallet: HDNodeWallet;
+        let firstHook: Contract;
+        let secondHook: Contract;
+
+        before(async () => {
+            ({ eoaValidator, account, wallet } = await fixture(
+                deployer,
+                VALIDATORS.EOA,
+            ));
+
+            await deployer.fund(100, await account.getAddress());
+
+            firstHook = await deployer.deployCustomContract(
+                'MockValidationHook',
+                [],
+            );
+            secondHook = await deployer.deployCustomContract(
+                'MockValidationHook',
+                [],
+            );
+
+            await addHook(
+                provider,
+                account,
+                eoaValidator,
+                firstHook,
+                HOOKS.VALIDATION,
+                wallet,
+            );
+            await addHook(
+                provider,
+                account,
+                eoaValidator,
+                secondHook,
+                HOOKS.VALIDATION,
+                wallet,
+                [AbiCoder.defaultAbiCoder().encode(['bool'], [false])],
+            );
+        });
+
+        it('should order hook data like listHooks', async () => {
+            const validationHooks = await account.listHooks(HOOKS.VALIDATION);
+            const firstData = AbiCoder.defaultAbiCoder().encode(
+                ['bool'],
+                [false],
+            );
+            const secondData = AbiCoder.defaultAbiCoder().encode(
+                ['bool'],
+                [true],
+            );
+
+            const ordered = orderHookData(validationHooks, [
+                { hook: await firstHook.getAddress(), data: firstData },
+                { hook: await secondHook.getAddress(), data: secondData },
+            ]);
+
+            expect(ordered).to.have.lengthOf(validationHooks.length);
+            expect(
+                ordered[validationHooks.indexOf(await firstHook.getAddress())],
+            ).to.eq(firstData);
+            expect(
+                ordered[validationHooks.indexOf(await secondHook.getAddress())],
+            ).to.eq(secondData);
+        });
+
+        it('should fill missing hook data with empty bytes', async () => {
+            const validationHooks = await account.listHooks(HOOKS.VALIDATION);
+
+            const ordered = orderHookData(validationHooks, [
+                { hook: await firstHook.getAddress(), data: '0xc1ae' },
+            ]);
+
+            expect(
+                ordered[validationHooks.indexOf(await secondHook.getAddress())],
+            ).to.eq('0x');
+        });
+
+        it('should reject hook data for unknown hooks', async () => {
+            const validationHooks = await account.listHooks(HOOKS.VALIDATION);
+
+            expect(() =>
+                orderHookData(validationHooks, [
+                    { hook: validator, data: '0xc1ae' },
+                ]),
+            ).to.throw('is not a validation hook of the account');
+        });
+
+        it('should reject duplicate hook data', async () => {
+            const validationHooks = await account.listHooks(HOOKS.VALIDATION);
+            const hook = await firstHook.getAddress();
+
+            expect(() =>
+                orderHookData(validationHooks, [
+                    { hook, data: '0xc1ae' },
+                    { hook, data: '0xc1ae' },
+                ]),
+            ).to.throw('Duplicate hook data');
+        });
+
+        it('should label the hook data of a signed transaction', async () => {
+            const validationHooks = await account.listHooks(HOOKS.VALIDATION);
+            const data = AbiCoder.defaultAbiCoder().encode(['bool'], [false]);
+
+            const tx = await prepareEOATx(
+                provider,
+                account,
+                ethTransfer(await richWallet.getAddress(), 1),
+                await eoaValidator.getAddress(),
+                wallet,
+                orderHookData(validationHooks, [
+                    { hook: await firstHook.getAddress(), data },
+                    { hook: await secondHook.getAddress(), data },
+                ]),
+            );
+
+            const decoded = decodeTransactionSignature(
+                tx.customData?.customSignature as string,
+            );
+
+            expect(decoded.validator).to.eq(await eoaValidator.getAddress());
+            expect(labelHookData(validationHooks, decoded.hookData)).to.deep.eq(
+                [
+                    { hook: validationHooks[0], data },
+                    { hook: validationHooks[1], data },
+                ],
+            );
+        });
+
+        it('should reject hook data of the wrong length', async () => {
+            const validationHooks = await account.listHooks(HOOKS.VALIDATION);
+
+            expect(() => labelHookData(validationHooks, ['0x'])).to.throw(
+                'Hook data length 1 does not match 2 validation hooks',
+            );
+        });
+    });
+});
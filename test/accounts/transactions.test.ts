@@ -3,17 +3,23 @@
  * Unauthorized copying of this file, via any medium is strictly prohibited
  * Proprietary and confidential
  */
-import { expect } from 'chai';
-import { HDNodeWallet, parseEther } from 'ethers';
+import { assert, expect } from 'chai';
+import { HDNodeWallet, ZeroHash, parseEther } from 'ethers';
 import * as hre from 'hardhat';
-import type { Contract, Wallet } from 'zksync-ethers';
-import { Provider, utils } from 'zksync-ethers';
+import type { Contract } from 'zksync-ethers';
+import { Provider, Wallet, utils } from 'zksync-ethers';
 
 import { LOCAL_RICH_WALLETS, getWallet } from '../../deploy/utils';
 import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCaller';
+import type { CallFrame } from '../utils/batch';
+import { BatchComposer } from '../utils/batch';
 import { ClaveDeployer } from '../utils/deployer';
 import { fixture } from '../utils/fixture';
+import { NonceManager } from '../utils/nonces';
+import { OutsideTransactionClient } from '../utils/outside';
+import { K1Signer } from '../utils/signers';
 import {
+    AGWTransactionBuilder,
     ethTransfer,
     prepareBatchTx,
     prepareEOATx,
@@ -218,5 +224,492 @@ describe('AGW Contracts - Account tests', () => {
                 richERC20BalanceBefore + amount,
             );
         });
+
+        it('should estimate gas instead of using a fixed limit', async () => {
+            const amount = parseEther('1');
+
+            const txData = ethTransfer(richAddress, amount);
+            const tx = await prepareEOATx(
+                provider,
+                account,
+                txData,
+                await eoaValidator.getAddress(),
+                wallet,
+            );
+
+            expect(tx.gasLimit).to.be.lessThan(30_000_000n);
+            expect(tx.maxFeePerGas).to.be.greaterThan(0n);
+
+            const txReceipt = await provider.broadcastTransaction(
+                utils.serializeEip712(tx),
+            );
+            const receipt = await txReceipt.wait();
+
+            expect(receipt.gasUsed).to.be.lessThanOrEqual(tx.gasLimit);
+            expect(await provider.getBalance(richAddress)).to.be.equal(
+                richBalanceBefore + amount,
+            );
+        });
+
+        it('should apply fee overrides', async () => {
+            const gasPrice = await provider.getGasPrice();
+
+            const txData = ethTransfer(richAddress, 1);
+            const tx = await prepareEOATx(
+                provider,
+                account,
+                txData,
+                await eoaValidator.getAddress(),
+                wallet,
+                undefined,
+                undefined,
+                {
+                    gasLimit: 5_000_000,
+                    maxFeePerGas: gasPrice * 2n,
+                    maxPriorityFeePerGas: 0,
+                },
+            );
+
+            expect(tx.gasLimit).to.be.equal(5_000_000n);
+            expect(tx.maxFeePerGas).to.be.equal(gasPrice * 2n);
+            expect(tx.maxPriorityFeePerGas).to.be.equal(0);
+
+            const txReceipt = await provider.broadcastTransaction(
+                utils.serializeEip712(tx),
+            );
+            await txReceipt.wait();
+        });
+    });
+
+    describe('Batch composer', () => {
+        let accountAddress: string;
+        let richAddress: string;
+
+        before(async () => {
+            accountAddress = await account.getAddress();
+            richAddress = await richWallet.getAddress();
+        });
+
+        it('should report the outcome of each call', async () => {
+            const balance = await erc20.balanceOf(accountAddress);
+            const composer = new BatchComposer()
+                .add(await erc20.getAddress(), erc20.interface, 'approve', [
+                    richAddress,
+                    100,
+                ])
+                .add(
+                    await erc20.getAddress(),
+                    erc20.interface,
+                    'transfer',
+                    [richAddress, balance + 1n],
+                    { allowFailure: true },
+                )
+                .transfer(richAddress, parseEther('1'));
+
+            const batchTx = await prepareBatchTx(
+                provider,
+                account,
+                composer.calls(),
+                await eoaValidator.getAddress(),
+                keyPair,
+                undefined,
+                undefined,
+                wallet,
+            );
+            expect(batchTx.value).to.be.equal(composer.totalValue());
+
+            const txResponse = await provider.broadcastTransaction(
+                utils.serializeEip712(batchTx),
+            );
+            await txResponse.wait();
+
+            const outcomes = await composer.outcomes(
+                provider,
+                accountAddress,
+                txResponse.hash,
+            );
+
+            expect(outcomes.map((outcome) => outcome.status)).to.deep.eq([
+                'success',
+                'failed',
+                'success',
+            ]);
+            expect(outcomes[0].result?.toArray()).to.deep.eq([true]);
+            expect(outcomes[1].error?.name).to.be.equal(
+                'ERC20InsufficientBalance',
+            );
+            expect(outcomes[1].reason).to.be.equal(
+                `ERC20InsufficientBalance(${accountAddress}, ${balance}, ${balance + 1n})`,
+            );
+            expect(await erc20.allowance(accountAddress, richAddress)).to.eq(
+                100n,
+            );
+        });
+
+        it('should keep return data that does not decode', async () => {
+            const composer = new BatchComposer().add(
+                await erc20.getAddress(),
+                erc20.interface,
+                'approve',
+                [richAddress, 100],
+            );
+            const [call] = composer.calls();
+
+            // A target that returns less than its ABI declares
+            const trace: CallFrame = {
+                type: 'Call',
+                from: richAddress,
+                to: accountAddress,
+                input: account.interface.encodeFunctionData('batchCall', [
+                    composer.calls(),
+                ]),
+                calls: [
+                    {
+                        type: 'Call',
+                        from: accountAddress,
+                        to: String(call.target),
+                        input: String(call.callData),
+                        output: '0x01',
+                    },
+                ],
+            };
+
+            const [outcome] = composer.decodeOutcomes(trace, accountAddress);
+            expect(outcome.status).to.eq('success');
+            expect(outcome.result).to.be.undefined;
+            expect(outcome.returnData).to.eq('0x01');
+        });
+
+        it('should report the call that reverted the batch', async () => {
+            const balance = await erc20.balanceOf(accountAddress);
+            const composer = new BatchComposer()
+                .add(await erc20.getAddress(), erc20.interface, 'approve', [
+                    richAddress,
+                    200,
+                ])
+                .add(await erc20.getAddress(), erc20.interface, 'transfer', [
+                    richAddress,
+                    balance + 1n,
+                ])
+                .transfer(richAddress, 1);
+
+            const batchTx = await prepareBatchTx(
+                provider,
+                account,
+                composer.calls(),
+                await eoaValidator.getAddress(),
+                keyPair,
+                undefined,
+                undefined,
+                wallet,
+                // Skip gas estimation, the transaction is expected to revert
+                { gasLimit: 30_000_000 },
+            );
+
+            const txResponse = await provider.broadcastTransaction(
+                utils.serializeEip712(batchTx),
+            );
+            try {
+                await txResponse.wait();
+                assert(false, 'Should revert');
+            } catch (err) {}
+
+            const outcomes = await composer.outcomes(
+                provider,
+                accountAddress,
+                txResponse.hash,
+            );
+
+            expect(outcomes.map((outcome) => outcome.status)).to.deep.eq([
+                'rolled back',
+                'failed',
+                'not executed',
+            ]);
+            expect(outcomes[1].error?.name).to.be.equal(
+                'ERC20InsufficientBalance',
+            );
+            expect(await erc20.allowance(accountAddress, richAddress)).to.eq(
+                100n,
+            );
+        });
+    });
+
+    describe('Nonce manager', () => {
+        let accountAddress: string;
+        let richAddress: string;
+        let builder: AGWTransactionBuilder;
+        let nonceManager: NonceManager;
+
+        before(async () => {
+            accountAddress = await account.getAddress();
+            richAddress = await richWallet.getAddress();
+            builder = new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            );
+            nonceManager = new NonceManager(provider);
+        });
+
+        it('should reserve sequential nonces for parallel transactions', async () => {
+            const nonceBefore = await provider.getTransactionCount(
+                accountAddress,
+            );
+
+            const txs = await Promise.all(
+                [1, 2, 3].map(async (amount) => {
+                    const nonce = await nonceManager.reserve(accountAddress);
+                    return await builder.populate(
+                        account,
+                        ethTransfer(richAddress, amount),
+                        [],
+                        undefined,
+                        { nonce },
+                    );
+                }),
+            );
+            expect(
+                txs.map((tx) => Number(tx.nonce)).sort((a, b) => a - b),
+            ).to.deep.eq([
+                nonceBefore,
+                nonceBefore + 1,
+                nonceBefore + 2,
+            ]);
+
+            txs.sort((a, b) => Number(a.nonce) - Number(b.nonce));
+            for (const tx of txs) {
+                const txResponse = await provider.broadcastTransaction(
+                    utils.serializeEip712(tx),
+                );
+                await nonceManager.track(accountAddress, tx, txResponse.hash);
+                await txResponse.wait();
+            }
+
+            const result = await nonceManager.reconcile(accountAddress);
+            expect(result.confirmed.map((tracked) => tracked.nonce)).to.deep.eq(
+                [nonceBefore, nonceBefore + 1, nonceBefore + 2],
+            );
+            expect(result.dropped).to.be.empty;
+            expect(result.nextNonce).to.be.equal(nonceBefore + 3);
+        });
+
+        it('should reuse released nonces', async () => {
+            const first = await nonceManager.reserve(accountAddress);
+            const second = await nonceManager.reserve(accountAddress);
+
+            await nonceManager.release(accountAddress, first);
+            expect(await nonceManager.reserve(accountAddress)).to.be.equal(
+                first,
+            );
+
+            // A build that fails gives its nonce back
+            await expect(
+                nonceManager.send(accountAddress, async () => {
+                    throw new Error('Build failed');
+                }),
+            ).to.be.rejectedWith('Build failed');
+            expect(await nonceManager.reserve(accountAddress)).to.be.equal(
+                second + 1,
+            );
+
+            await nonceManager.release(accountAddress, first);
+            await nonceManager.release(accountAddress, second + 1);
+            await nonceManager.release(accountAddress, second);
+            expect(
+                (await nonceManager.reconcile(accountAddress)).nextNonce,
+            ).to.be.equal(first);
+        });
+
+        it('should send and reconcile transactions', async () => {
+            const txResponse = await nonceManager.send(
+                accountAddress,
+                async (nonce) =>
+                    await builder.populate(
+                        account,
+                        ethTransfer(richAddress, 1),
+                        [],
+                        undefined,
+                        { nonce },
+                    ),
+            );
+            await txResponse.wait();
+
+            // Confirmed transactions can not be replaced
+            await expect(
+                nonceManager.replace(account, txResponse.nonce, builder),
+            ).to.be.rejectedWith(
+                `Nonce ${txResponse.nonce} is already used on chain`,
+            );
+
+            const result = await nonceManager.reconcile(accountAddress);
+            expect(result.confirmed.map((tracked) => tracked.hash)).to.deep.eq(
+                [txResponse.hash],
+            );
+            expect(result.nextNonce).to.be.equal(
+                await provider.getTransactionCount(accountAddress),
+            );
+        });
+
+        it('should re-sign a dropped transaction with bumped fees', async () => {
+            const nonce = await nonceManager.reserve(accountAddress);
+            const tx = await builder.populate(
+                account,
+                ethTransfer(richAddress, 1),
+                [],
+                undefined,
+                { nonce },
+            );
+            // The local node seals transactions at once, so none stays
+            // pending long enough to be replaced. Never broadcasting it is
+            // the same to the manager as a transaction the node dropped
+            await nonceManager.track(accountAddress, tx, ZeroHash);
+
+            const txResponse = await nonceManager.replace(
+                account,
+                nonce,
+                builder,
+            );
+            const receipt = await txResponse.wait();
+
+            expect(receipt.status).to.eq(1);
+            expect(txResponse.nonce).to.eq(nonce);
+            expect(txResponse.maxFeePerGas).to.be.greaterThanOrEqual(
+                BigInt(tx.maxFeePerGas ?? 0),
+            );
+            expect(
+                await provider.getTransactionCount(accountAddress),
+            ).to.be.equal(nonce + 1);
+
+            const result = await nonceManager.reconcile(accountAddress);
+            expect(
+                result.confirmed.map((tracked) => tracked.hash),
+            ).to.include(txResponse.hash);
+            expect(result.dropped).to.be.empty;
+        });
+    });
+
+    describe('Outside transactions', () => {
+        let accountAddress: string;
+        let richAddress: string;
+        let owner: Wallet;
+
+        before(async () => {
+            accountAddress = await account.getAddress();
+            richAddress = await richWallet.getAddress();
+
+            // The owner EOA pays for outside transactions
+            owner = new Wallet(wallet.privateKey, provider);
+            await deployer.fund(1, owner.address);
+        });
+
+        it('should execute transactions from the owner EOA', async () => {
+            const amount = parseEther('1');
+            const [nonceBefore, richBalanceBefore] = await Promise.all([
+                provider.getTransactionCount(accountAddress),
+                provider.getBalance(richAddress),
+            ]);
+
+            const client = new OutsideTransactionClient(provider, owner);
+            const txResponse = await client.send(
+                account,
+                ethTransfer(richAddress, amount),
+            );
+            await txResponse.wait();
+
+            expect(await provider.getBalance(richAddress)).to.be.equal(
+                richBalanceBefore + amount,
+            );
+            expect(
+                await provider.getTransactionCount(accountAddress),
+            ).to.be.equal(nonceBefore + 1);
+        });
+
+        it('should use the nonces of the nonce manager', async () => {
+            const nonceManager = new NonceManager(provider);
+            const builder = new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            );
+            const client = new OutsideTransactionClient(
+                provider,
+                owner,
+                nonceManager,
+            );
+            const nonceBefore = await provider.getTransactionCount(
+                accountAddress,
+            );
+
+            const bootloaderTx = await nonceManager.send(
+                accountAddress,
+                async (nonce) =>
+                    await builder.populate(
+                        account,
+                        ethTransfer(richAddress, 1),
+                        [],
+                        undefined,
+                        { nonce },
+                    ),
+            );
+            await bootloaderTx.wait();
+
+            const outsideTx = await client.send(
+                account,
+                ethTransfer(richAddress, 1),
+            );
+            await outsideTx.wait();
+
+            const result = await nonceManager.reconcile(accountAddress);
+            expect(result.confirmed.map((tracked) => tracked.hash)).to.deep.eq(
+                [bootloaderTx.hash, outsideTx.hash],
+            );
+            expect(result.nextNonce).to.be.equal(nonceBefore + 2);
+            expect(
+                (await nonceManager.reconcile(owner.address)).confirmed,
+            ).to.have.lengthOf(1);
+        });
+
+        it('should reject EOAs that are not owners', async () => {
+            const stranger = new Wallet(
+                Wallet.createRandom().privateKey,
+                provider,
+            );
+            await deployer.fund(1, stranger.address);
+            const client = new OutsideTransactionClient(provider, stranger);
+
+            const [nonceBefore, balanceBefore] = await Promise.all([
+                provider.getTransactionCount(accountAddress),
+                provider.getBalance(accountAddress),
+            ]);
+
+            try {
+                await client.send(account, ethTransfer(richAddress, 1));
+                assert(false, 'Should revert');
+            } catch (err) {
+                expect((err as Error).message).to.eq(
+                    `${stranger.address} is not a k1 owner of the account`,
+                );
+            }
+
+            // The account rejects them without the client's check too
+            await expect(
+                stranger.sendTransaction(
+                    await client.populateOuter(
+                        account,
+                        ethTransfer(richAddress, 1),
+                    ),
+                ),
+            ).to.be.revertedWithCustomError(
+                account,
+                'UNAUTHORIZED_OUTSIDE_TRANSACTION',
+            );
+
+            expect(
+                await provider.getTransactionCount(accountAddress),
+            ).to.be.equal(nonceBefore);
+            expect(await provider.getBalance(accountAddress)).to.be.equal(
+                balanceBefore,
+            );
+        });
     });
 });
@@ -5,9 +5,15 @@
  */
 import { assert, expect } from 'chai';
 import type { ec } from 'elliptic';
-import { HDNodeWallet, parseEther } from 'ethers';
+import {
+    HDNodeWallet,
+    dataSlice,
+    hexlify,
+    parseEther,
+    randomBytes,
+} from 'ethers';
 import * as hre from 'hardhat';
-import { Provider, Wallet, utils } from 'zksync-ethers';
+import { EIP712Signer, Provider, Wallet, utils } from 'zksync-ethers';
 import type { Contract } from 'zksync-ethers';
 import type { TransactionLike } from 'zksync-ethers/build/types';
 
@@ -16,6 +22,19 @@ import { ClaveDeployer } from '../../utils/deployer';
 import { fixture } from '../../utils/fixture';
 import { VALIDATORS } from '../../utils/names';
 import {
+    AUTH_DATA_FLAGS,
+    CLAVE_ASSERTION,
+    encodeFatSignature,
+    getAuthenticatorData,
+    getClientDataJSON,
+    getSignedData,
+    parseAssertionResponse,
+} from '../../utils/passkey';
+import type { AssertionOptions } from '../../utils/passkey';
+import { PasskeySigner } from '../../utils/signers';
+import { encodeTransactionSignature } from '../../utils/signatures';
+import {
+    AGWTransactionBuilder,
     ethTransfer,
     prepareMockTx,
     preparePasskeyTx,
@@ -169,5 +188,210 @@ describe('AGW Contracts - Passkey Validator tests', () => {
                 });
             });
         });
+
+        describe('WebAuthn assertions', () => {
+            let richAddress: string;
+            let richBalanceBefore: bigint;
+
+            const amount = parseEther('1');
+            const absOptions: AssertionOptions = {
+                rpId: 'abs.xyz',
+                origin: 'https://abs.xyz',
+                crossOrigin: false,
+                signCount: 42,
+            };
+
+            async function sendTransfer(signer: PasskeySigner): Promise<void> {
+                const txBuilder = new AGWTransactionBuilder(
+                    provider,
+                    signer,
+                    await passkeyValidator.getAddress(),
+                );
+                const tx = await txBuilder.build(
+                    account,
+                    ethTransfer(richAddress, amount),
+                );
+
+                const txReceipt = await provider.broadcastTransaction(tx);
+                await txReceipt.wait();
+            }
+
+            before(async () => {
+                richAddress = await richWallet.getAddress();
+            });
+
+            beforeEach(async () => {
+                richBalanceBefore = await provider.getBalance(richAddress);
+            });
+
+            it('should cover the verification gas of a valid signature', async () => {
+                const digest = hexlify(randomBytes(32));
+                const publicKey = encodePublicKey(keyPair);
+                const pubKey = [
+                    dataSlice(publicKey, 0, 32),
+                    dataSlice(publicKey, 32),
+                ];
+
+                for (const format of ['compact', 'fat'] as const) {
+                    const signer = new PasskeySigner(
+                        keyPair,
+                        CLAVE_ASSERTION,
+                        format,
+                    );
+                    const signature = await signer.sign(digest);
+
+                    expect(
+                        await passkeyValidator.validateSignature(
+                            digest,
+                            signature,
+                            pubKey,
+                        ),
+                        format,
+                    ).to.be.true;
+
+                    const [signatureGas, dummyGas] = await Promise.all([
+                        passkeyValidator.validateSignature.estimateGas(
+                            digest,
+                            signature,
+                            pubKey,
+                        ),
+                        passkeyValidator.validateSignature.estimateGas(
+                            digest,
+                            signer.dummySignature(),
+                            pubKey,
+                        ),
+                    ]);
+                    expect(
+                        signatureGas - dummyGas,
+                        format,
+                    ).to.be.lessThanOrEqual(signer.verificationGas());
+                }
+            });
+
+            it('should send a tx with a fat signature', async () => {
+                await sendTransfer(
+                    new PasskeySigner(keyPair, CLAVE_ASSERTION, 'fat'),
+                );
+
+                expect(await provider.getBalance(richAddress)).to.eq(
+                    richBalanceBefore + amount,
+                );
+            });
+
+            it('should send a tx signed for another origin', async () => {
+                await sendTransfer(
+                    new PasskeySigner(keyPair, absOptions, 'fat'),
+                );
+
+                expect(await provider.getBalance(richAddress)).to.eq(
+                    richBalanceBefore + amount,
+                );
+            });
+
+            it('should send a tx with extra client data fields', async () => {
+                await sendTransfer(
+                    new PasskeySigner(
+                        keyPair,
+                        {
+                            ...absOptions,
+                            extraClientData: {
+                                other_keys_can_be_added_here:
+                                    'do not compare clientDataJSON against a template. See https://goo.gl/yabPex',
+                            },
+                        },
+                        'fat',
+                    ),
+                );
+
+                expect(await provider.getBalance(richAddress)).to.eq(
+                    richBalanceBefore + amount,
+                );
+            });
+
+            it('should send a tx with an android compact signature', async () => {
+                await sendTransfer(
+                    new PasskeySigner(keyPair, {
+                        rpId: 'getclave.io',
+                        origin: 'android:apk-key-hash:-sYXRdwJA3hvue3mKpYrOZ9zSPC7b4mbgzJmdZEDO5w',
+                        extraClientData: {
+                            androidPackageName: 'com.clave.mobile',
+                        },
+                    }),
+                );
+
+                expect(await provider.getBalance(richAddress)).to.eq(
+                    richBalanceBefore + amount,
+                );
+            });
+
+            it('should send a tx with a parsed authenticator response', async () => {
+                const txBuilder = new AGWTransactionBuilder(
+                    provider,
+                    new PasskeySigner(keyPair, absOptions, 'fat'),
+                    await passkeyValidator.getAddress(),
+                );
+                const tx = await txBuilder.populate(
+                    account,
+                    ethTransfer(richAddress, amount),
+                );
+
+                // Re-sign the way an authenticator does, with a DER signature
+                const challenge = hexlify(EIP712Signer.getSignedDigest(tx));
+                const signature = keyPair.sign(
+                    getSignedData(challenge, absOptions).slice(2),
+                    'hex',
+                );
+                const parsed = parseAssertionResponse({
+                    authenticatorData:
+                        getAuthenticatorData(absOptions).toString('base64url'),
+                    clientDataJSON: Buffer.from(
+                        getClientDataJSON(challenge, absOptions),
+                    ).toString('base64url'),
+                    signature: Buffer.from(signature.toDER()).toString(
+                        'base64url',
+                    ),
+                });
+
+                tx.customData = {
+                    ...tx.customData,
+                    customSignature: encodeTransactionSignature(
+                        encodeFatSignature(parsed),
+                        await passkeyValidator.getAddress(),
+                    ),
+                };
+
+                const txReceipt = await provider.broadcastTransaction(
+                    utils.serializeEip712(tx),
+                );
+                await txReceipt.wait();
+
+                expect(await provider.getBalance(richAddress)).to.eq(
+                    richBalanceBefore + amount,
+                );
+            });
+
+            it('should revert without the user verification flag', async () => {
+                try {
+                    await sendTransfer(
+                        new PasskeySigner(
+                            keyPair,
+                            { ...absOptions, flags: AUTH_DATA_FLAGS.UP },
+                            'fat',
+                        ),
+                    );
+                    assert(false, 'Should revert');
+                } catch (err) {}
+
+                expect(await provider.getBalance(richAddress)).to.eq(
+                    richBalanceBefore,
+                );
+            });
+
+            it('should not encode a compact signature for another origin', async () => {
+                expect(() =>
+                    new PasskeySigner(keyPair, absOptions).dummySignature(),
+                ).to.throw('Compact signatures require');
+            });
+        });
     });
 });
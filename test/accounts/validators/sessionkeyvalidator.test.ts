@@ -0,0 +1,862 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { assert, expect } from 'chai';
+import type { HDNodeWallet } from 'ethers';
+import {
+    AbiCoder,
+    Interface,
+    MaxUint256,
+    ZeroHash,
+    dataSlice,
+    hexlify,
+    parseEther,
+    randomBytes,
+    zeroPadValue,
+} from 'ethers';
+import * as hre from 'hardhat';
+import { Provider, Wallet, utils } from 'zksync-ethers';
+import type { Contract, types } from 'zksync-ethers';
+
+import { LOCAL_RICH_WALLETS, getWallet } from '../../../deploy/utils';
+import { ClaveDeployer } from '../../utils/deployer';
+import { fixture } from '../../utils/fixture';
+import { addModule } from '../../utils/managers/modulemanager';
+import { HOOKS, VALIDATORS } from '../../utils/names';
+import {
+    SessionInspector,
+    buildSessionReport,
+    formatSessionReport,
+} from '../../utils/session/inspector';
+import { CallPolicyBuilder } from '../../utils/session/policy';
+import type { SessionSpec } from '../../utils/session/session';
+import {
+    Condition,
+    LimitType,
+    SESSION_SPEC_TYPE,
+    SessionKeySigner,
+    SessionStatus,
+    allowanceLimit,
+    createSessionTx,
+    decodeSession,
+    encodeSession,
+    encodeSessionHookData,
+    getPeriodIds,
+    getSessionHash,
+    prepareSessionTx,
+    sessionFromResult,
+    sessionStateFromResult,
+} from '../../utils/session/session';
+import {
+    TIMESTAMP_OUT_OF_RANGE,
+    simulateSessionTx,
+    simulateSessionValidation,
+} from '../../utils/session/simulator';
+import { encodeTransactionSignature } from '../../utils/signatures';
+import { K1Signer } from '../../utils/signers';
+import {
+    AGWTransactionBuilder,
+    ethTransfer,
+    toTransactionStruct,
+} from '../../utils/transactions';
+
+describe('AGW Contracts - Session Key Validator tests', () => {
+    let deployer: ClaveDeployer;
+    let provider: Provider;
+    let richWallet: Wallet;
+    let eoaValidator: Contract;
+    let sessionValidator: Contract;
+    let account: Contract;
+    let wallet: HDNodeWallet;
+    let erc20: Contract;
+
+    let sessionKey: HDNodeWallet;
+    let spec: SessionSpec;
+
+    before(async () => {
+        richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
+        deployer = new ClaveDeployer(hre, richWallet);
+        provider = new Provider(hre.network.config.url, undefined, {
+            cacheTimeout: -1,
+        });
+
+        ({ eoaValidator, account, wallet } = await fixture(
+            deployer,
+            VALIDATORS.EOA,
+        ));
+
+        const accountAddress = await account.getAddress();
+
+        await deployer.fund(100, accountAddress);
+
+        erc20 = await deployer.deployCustomContract('MockStable', []);
+        await erc20.mint(accountAddress, parseEther('1000'));
+
+        sessionValidator = await deployer.validator(VALIDATORS.SESSION);
+
+        await addModule(
+            provider,
+            account,
+            eoaValidator,
+            sessionValidator,
+            '0x',
+            wallet,
+        );
+
+        sessionKey = Wallet.createRandom();
+        const richAddress = await richWallet.getAddress();
+        const block = await provider.getBlock('latest');
+
+        spec = {
+            signer: sessionKey.address,
+            expiresAt: BigInt(block.timestamp) + 86_400n,
+            feeLimit: {
+                limitType: LimitType.Lifetime,
+                limit: parseEther('1'),
+                period: 0n,
+            },
+            callPolicies: [
+                {
+                    target: await erc20.getAddress(),
+                    selector: erc20.interface.getFunction('transfer')!.selector,
+                    maxValuePerUse: 0n,
+                    valueLimit: {
+                        limitType: LimitType.Unlimited,
+                        limit: 0n,
+                        period: 0n,
+                    },
+                    constraints: [
+                        {
+                            condition: Condition.Equal,
+                            index: 0n,
+                            refValue: zeroPadValue(richAddress, 32),
+                            limit: {
+                                limitType: LimitType.Unlimited,
+                                limit: 0n,
+                                period: 0n,
+                            },
+                        },
+                        {
+                            condition: Condition.Unconstrained,
+                            index: 1n,
+                            refValue: ZeroHash,
+                            limit: {
+                                limitType: LimitType.Allowance,
+                                limit: parseEther('100'),
+                                period: 86_400n,
+                            },
+                        },
+                    ],
+                },
+            ],
+            transferPolicies: [
+                {
+                    target: richAddress,
+                    maxValuePerUse: parseEther('1'),
+                    valueLimit: {
+                        limitType: LimitType.Lifetime,
+                        limit: parseEther('2'),
+                        period: 0n,
+                    },
+                },
+            ],
+        };
+    });
+
+    describe('Session encoding', () => {
+        it('should round trip a session spec', async () => {
+            expect(decodeSession(encodeSession(spec))).to.deep.eq(spec);
+        });
+
+        it('should encode hook data as (SessionSpec, uint64[])', async () => {
+            const hookData = encodeSessionHookData(spec, [0n, 0n, 0n, 3n]);
+
+            const [decodedSpec, periodIds] = AbiCoder.defaultAbiCoder().decode(
+                [SESSION_SPEC_TYPE, 'uint64[]'],
+                hookData,
+            );
+            expect(sessionFromResult(decodedSpec)).to.deep.eq(spec);
+            expect(periodIds).to.deep.eq([0n, 0n, 0n, 3n]);
+        });
+
+        it('should compute period ids for a call', async () => {
+            const timestamp = 86_400n * 3n + 5n;
+            const tx = {
+                to: await erc20.getAddress(),
+                data: erc20.interface.encodeFunctionData('transfer', [
+                    await richWallet.getAddress(),
+                    1,
+                ]),
+            };
+
+            expect(getPeriodIds(spec, tx, timestamp)).to.deep.eq([
+                0n,
+                0n,
+                0n,
+                3n,
+            ]);
+        });
+
+        it('should compute period ids for a transfer', async () => {
+            const tx = ethTransfer(await richWallet.getAddress(), 1);
+
+            expect(getPeriodIds(spec, tx, 86_400n * 3n)).to.deep.eq([0n, 0n]);
+        });
+
+        it('should reject transactions without a policy', async () => {
+            const tx = ethTransfer(Wallet.createRandom().address, 1);
+
+            expect(() => getPeriodIds(spec, tx, 0n)).to.throw(
+                'No transfer policy for',
+            );
+        });
+
+        it('should refuse an unlimited fee limit', async () => {
+            const unsafeSpec = {
+                ...spec,
+                feeLimit: {
+                    limitType: LimitType.Unlimited,
+                    limit: 0n,
+                    period: 0n,
+                },
+            };
+
+            try {
+                await createSessionTx(sessionValidator, unsafeSpec);
+                assert(false, 'Should throw');
+            } catch (err) {
+                expect((err as Error).message).to.eq(
+                    'Unlimited fee allowance is not safe',
+                );
+            }
+        });
+    });
+
+    describe('Call policy builder', () => {
+        const swapAbi = [
+            'function swap(bytes path, (address tokenIn, uint256 amountIn, uint256[2] mins) order, address recipient, int256 delta)',
+        ];
+
+        it('should build the same policy as written by hand', async () => {
+            const policy = new CallPolicyBuilder(
+                erc20.interface,
+                await erc20.getAddress(),
+                'transfer',
+            )
+                .where('to', Condition.Equal, await richWallet.getAddress())
+                .limit('value', allowanceLimit(parseEther('100'), 86_400n))
+                .build();
+
+            expect(policy).to.deep.eq(spec.callPolicies[0]);
+        });
+
+        it('should resolve parameters to their calldata words', async () => {
+            const recipient = Wallet.createRandom().address;
+            const builder = new CallPolicyBuilder(
+                swapAbi,
+                await erc20.getAddress(),
+                'swap',
+            );
+            const data = new Interface(swapAbi).encodeFunctionData('swap', [
+                '0xc1ae',
+                [recipient, 7n, [8n, 9n]],
+                recipient,
+                -1n,
+            ]);
+            const word = (index: bigint): string =>
+                dataSlice(
+                    data,
+                    4 + Number(index) * 32,
+                    36 + Number(index) * 32,
+                );
+
+            expect(word(builder.resolve('order.amountIn').index)).to.eq(
+                zeroPadValue('0x07', 32),
+            );
+            expect(word(builder.resolve('order.mins.1').index)).to.eq(
+                zeroPadValue('0x09', 32),
+            );
+            expect(word(builder.resolve('recipient').index)).to.eq(
+                zeroPadValue(recipient.toLowerCase(), 32),
+            );
+        });
+
+        it('should refuse dynamic parameters', async () => {
+            const builder = new CallPolicyBuilder(
+                swapAbi,
+                await erc20.getAddress(),
+                'swap',
+            );
+
+            expect(() =>
+                builder.where('path', Condition.Equal, '0xc1ae'),
+            ).to.throw('has dynamic type bytes');
+        });
+
+        it('should refuse ordering conditions on signed parameters', async () => {
+            const builder = new CallPolicyBuilder(
+                swapAbi,
+                await erc20.getAddress(),
+                'swap',
+            );
+
+            expect(() => builder.where('delta', Condition.Less, 0)).to.throw(
+                'is signed',
+            );
+        });
+    });
+
+    describe('Session lifecycle', () => {
+        it('should create a session with the matching hash', async () => {
+            const txBuilder = new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            );
+            const tx = await txBuilder.build(
+                account,
+                await createSessionTx(sessionValidator, spec),
+                ['0x'],
+            );
+
+            const txResponse = await provider.broadcastTransaction(tx);
+            const receipt = await txResponse.wait();
+
+            const event = receipt.logs
+                .map((log) => sessionValidator.interface.parseLog(log))
+                .find((log) => log?.name === 'SessionCreated');
+
+            expect(event?.args.sessionHash).to.eq(getSessionHash(spec));
+            expect(sessionFromResult(event?.args.sessionSpec)).to.deep.eq(
+                spec,
+            );
+            expect(
+                await sessionValidator.sessionStatus(
+                    await account.getAddress(),
+                    getSessionHash(spec),
+                ),
+            ).to.eq(SessionStatus.Active);
+        });
+
+        it('should send ETH with the session key', async () => {
+            const amount = parseEther('1');
+            const richAddress = await richWallet.getAddress();
+            const richBalanceBefore = await provider.getBalance(richAddress);
+
+            expect(await account.listHooks(HOOKS.VALIDATION)).to.deep.eq([
+                await sessionValidator.getAddress(),
+            ]);
+
+            const tx = await prepareSessionTx(
+                provider,
+                account,
+                ethTransfer(richAddress, amount),
+                await sessionValidator.getAddress(),
+                sessionKey,
+                spec,
+            );
+            const txResponse = await provider.broadcastTransaction(
+                utils.serializeEip712(tx),
+            );
+            await txResponse.wait();
+
+            expect(await provider.getBalance(richAddress)).to.eq(
+                richBalanceBefore + amount,
+            );
+        });
+
+        it('should call a contract with the session key', async () => {
+            const amount = parseEther('10');
+            const richAddress = await richWallet.getAddress();
+            const richBalanceBefore = await erc20.balanceOf(richAddress);
+
+            const tx = await prepareSessionTx(
+                provider,
+                account,
+                {
+                    to: await erc20.getAddress(),
+                    value: 0,
+                    data: erc20.interface.encodeFunctionData('transfer', [
+                        richAddress,
+                        amount,
+                    ]),
+                },
+                await sessionValidator.getAddress(),
+                sessionKey,
+                spec,
+            );
+            const txResponse = await provider.broadcastTransaction(
+                utils.serializeEip712(tx),
+            );
+            await txResponse.wait();
+
+            expect(await erc20.balanceOf(richAddress)).to.eq(
+                richBalanceBefore + amount,
+            );
+        });
+    });
+
+    describe('Verification gas', () => {
+        it('should cover the gas of the validation hook', async () => {
+            const accountAddress = await account.getAddress();
+            const block = await provider.getBlock('latest');
+            const tx = {
+                from: accountAddress,
+                to: await erc20.getAddress(),
+                data: erc20.interface.encodeFunctionData('transfer', [
+                    await richWallet.getAddress(),
+                    1,
+                ]),
+                gasLimit: 5_000_000,
+                maxFeePerGas: await provider.getGasPrice(),
+            };
+            const hookData = encodeSessionHookData(
+                spec,
+                getPeriodIds(spec, tx, block.timestamp),
+            );
+            const signedHash = hexlify(randomBytes(32));
+            const signature = sessionKey.signingKey.sign(signedHash).serialized;
+
+            const estimateHook = async (validator: string): Promise<bigint> =>
+                await sessionValidator.validationHook.estimateGas(
+                    signedHash,
+                    toTransactionStruct({
+                        ...tx,
+                        customData: {
+                            customSignature: encodeTransactionSignature(
+                                signature,
+                                validator,
+                            ),
+                        },
+                    }),
+                    hookData,
+                    { from: accountAddress },
+                );
+
+            // The hook returns early for transactions of other validators
+            const [hookGas, skippedGas] = await Promise.all([
+                estimateHook(await sessionValidator.getAddress()),
+                estimateHook(await eoaValidator.getAddress()),
+            ]);
+            expect(hookGas - skippedGas).to.be.lessThanOrEqual(
+                new SessionKeySigner(sessionKey, spec).verificationGas(),
+            );
+        });
+    });
+
+    describe('Validation simulator', () => {
+        const timestampAsserter = new Interface([
+            'error TimestampOutOfRange(uint256 currentTimestamp, uint256 start, uint256 end)',
+        ]);
+
+        let accountAddress: string;
+        let paritySpec: SessionSpec;
+        let expiredSpec: SessionSpec;
+
+        const createSession = async (
+            sessionSpec: SessionSpec,
+        ): Promise<void> => {
+            const txBuilder = new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            );
+            const tx = await txBuilder.build(
+                account,
+                await createSessionTx(sessionValidator, sessionSpec),
+                ['0x'],
+            );
+
+            const txResponse = await provider.broadcastTransaction(tx);
+            await txResponse.wait();
+        };
+
+        // Revert reason of the validation hook, null if it accepts the tx
+        const validateOnChain = async (
+            sessionSpec: SessionSpec,
+            tx: types.TransactionLike,
+        ): Promise<string | null> => {
+            const block = await provider.getBlock('latest');
+            let periodIds: Array<bigint>;
+            try {
+                periodIds = getPeriodIds(sessionSpec, tx, block.timestamp);
+            } catch {
+                // The validator rejects the target before reading period ids
+                periodIds = [0n, 0n];
+            }
+
+            // A signature by the session key, so the fee limit is checked too
+            const signedHash = hexlify(randomBytes(32));
+            const signature = sessionKey.signingKey.sign(signedHash).serialized;
+
+            const transaction = toTransactionStruct({
+                ...tx,
+                from: accountAddress,
+                customData: {
+                    ...tx.customData,
+                    customSignature: encodeTransactionSignature(
+                        signature,
+                        await sessionValidator.getAddress(),
+                    ),
+                },
+            });
+
+            try {
+                await sessionValidator.validationHook.staticCall(
+                    signedHash,
+                    transaction,
+                    encodeSessionHookData(sessionSpec, periodIds),
+                    { from: accountAddress },
+                );
+                return null;
+            } catch (err) {
+                const { reason, data } = err as {
+                    reason?: string;
+                    data?: string;
+                };
+                if (reason) {
+                    return reason;
+                }
+                if (!data) {
+                    return '';
+                }
+                return timestampAsserter.parseError(data)?.name ?? '';
+            }
+        };
+
+        const expectParity = async (
+            sessionSpec: SessionSpec,
+            tx: types.TransactionLike,
+            reason: string | null,
+        ): Promise<void> => {
+            const violation = await simulateSessionTx(
+                provider,
+                sessionValidator,
+                accountAddress,
+                sessionSpec,
+                tx,
+            );
+
+            expect(violation?.reason ?? null).to.eq(reason);
+            expect(await validateOnChain(sessionSpec, tx)).to.eq(reason);
+        };
+
+        const erc20Transfer = async (
+            to: string,
+            amount: bigint,
+        ): Promise<types.TransactionLike> => ({
+            to: await erc20.getAddress(),
+            value: 0,
+            data: erc20.interface.encodeFunctionData('transfer', [to, amount]),
+        });
+
+        before(async () => {
+            accountAddress = await account.getAddress();
+            const block = await provider.getBlock('latest');
+
+            paritySpec = {
+                ...spec,
+                transferPolicies: [
+                    {
+                        ...spec.transferPolicies[0],
+                        maxValuePerUse: parseEther('5'),
+                    },
+                ],
+            };
+            expiredSpec = {
+                ...spec,
+                expiresAt: BigInt(block.timestamp) - 1n,
+            };
+
+            await createSession(paritySpec);
+            await createSession(expiredSpec);
+        });
+
+        it('should accept what the validator accepts', async () => {
+            await expectParity(
+                paritySpec,
+                ethTransfer(await richWallet.getAddress(), parseEther('1')),
+                null,
+            );
+            await expectParity(
+                paritySpec,
+                await erc20Transfer(
+                    await richWallet.getAddress(),
+                    parseEther('100'),
+                ),
+                null,
+            );
+        });
+
+        it('should reject transfers without a policy', async () => {
+            await expectParity(
+                paritySpec,
+                ethTransfer(Wallet.createRandom().address, 1),
+                'Transfer to this address is not allowed',
+            );
+        });
+
+        it('should reject values above maxValuePerUse', async () => {
+            await expectParity(
+                spec,
+                ethTransfer(await richWallet.getAddress(), parseEther('1.5')),
+                'Value exceeds limit',
+            );
+        });
+
+        it('should reject values above the lifetime limit', async () => {
+            await expectParity(
+                paritySpec,
+                ethTransfer(await richWallet.getAddress(), parseEther('3')),
+                'Lifetime limit exceeded',
+            );
+        });
+
+        it('should reject calls without a policy', async () => {
+            await expectParity(
+                paritySpec,
+                {
+                    to: await erc20.getAddress(),
+                    value: 0,
+                    data: erc20.interface.encodeFunctionData('approve', [
+                        await richWallet.getAddress(),
+                        1,
+                    ]),
+                },
+                'Call to this contract is not allowed',
+            );
+        });
+
+        it('should reject calls to the account', async () => {
+            await expectParity(
+                paritySpec,
+                {
+                    to: accountAddress,
+                    value: 0,
+                    data: account.interface.encodeFunctionData('r1ListOwners'),
+                },
+                'Can not target self',
+            );
+        });
+
+        it('should reject unmet constraints', async () => {
+            await expectParity(
+                paritySpec,
+                await erc20Transfer(Wallet.createRandom().address, 1n),
+                'EQUAL constraint not met',
+            );
+        });
+
+        it('should reject parameters above the allowance', async () => {
+            await expectParity(
+                spec,
+                await erc20Transfer(
+                    await richWallet.getAddress(),
+                    parseEther('91'),
+                ),
+                'Allowance limit exceeded',
+            );
+        });
+
+        it('should reject the approval based paymaster flow', async () => {
+            await expectParity(
+                paritySpec,
+                {
+                    ...ethTransfer(await richWallet.getAddress(), 1),
+                    customData: {
+                        paymasterParams: utils.getPaymasterParams(
+                            Wallet.createRandom().address,
+                            {
+                                type: 'ApprovalBased',
+                                token: await erc20.getAddress(),
+                                minimalAllowance: 1,
+                                innerInput: '0x',
+                            },
+                        ),
+                    },
+                },
+                'Approval based paymaster flow not allowed',
+            );
+        });
+
+        it('should reject sponsored fees above the fee limit', async () => {
+            await expectParity(
+                paritySpec,
+                {
+                    ...ethTransfer(await richWallet.getAddress(), 1),
+                    gasLimit: 1_000_000_000n,
+                    maxFeePerGas: 10_000_000_000n,
+                    customData: {
+                        paymasterParams: utils.getPaymasterParams(
+                            Wallet.createRandom().address,
+                            { type: 'General', innerInput: '0x' },
+                        ),
+                    },
+                },
+                'Lifetime limit exceeded',
+            );
+        });
+
+        it('should reject sessions that were not created', async () => {
+            await expectParity(
+                { ...paritySpec, expiresAt: paritySpec.expiresAt + 1n },
+                ethTransfer(await richWallet.getAddress(), 1),
+                'Session is not active',
+            );
+        });
+
+        it('should reject expired sessions', async () => {
+            await expectParity(
+                expiredSpec,
+                ethTransfer(await richWallet.getAddress(), 1),
+                TIMESTAMP_OUT_OF_RANGE,
+            );
+        });
+
+        it('should report the rejecting policy and constraint', async () => {
+            const violation = await simulateSessionTx(
+                provider,
+                sessionValidator,
+                accountAddress,
+                spec,
+                await erc20Transfer(
+                    await richWallet.getAddress(),
+                    parseEther('91'),
+                ),
+            );
+
+            expect(violation).to.deep.eq({
+                reason: 'Allowance limit exceeded',
+                policy: 'call',
+                policyIndex: 0,
+                constraintIndex: 1,
+                value: parseEther('91'),
+                remaining: parseEther('90'),
+            });
+        });
+
+        it('should reject period ids of another period', async () => {
+            const state = sessionStateFromResult(
+                await sessionValidator.sessionState(accountAddress, spec),
+            );
+            const block = await provider.getBlock('latest');
+
+            const violation = simulateSessionValidation(
+                spec,
+                state,
+                await erc20Transfer(await richWallet.getAddress(), 1n),
+                {
+                    account: accountAddress,
+                    timestamp: block.timestamp,
+                    periodIds: [0n, 0n, 0n, 0n],
+                },
+            );
+
+            expect(violation).to.deep.eq({
+                reason: TIMESTAMP_OUT_OF_RANGE,
+                policy: 'call',
+                policyIndex: 0,
+                constraintIndex: 1,
+            });
+        });
+    });
+
+    describe('State inspector', () => {
+        let inspector: SessionInspector;
+
+        before(async () => {
+            inspector = new SessionInspector(provider, sessionValidator);
+        });
+
+        it('should report what the session can still do', async () => {
+            const block = await provider.getBlock('latest');
+            const report = await inspector.report(
+                await account.getAddress(),
+                spec,
+            );
+
+            expect(report.sessionHash).to.eq(getSessionHash(spec));
+            expect(report.status).to.eq(SessionStatus.Active);
+            expect(report.expired).to.be.false;
+            // The account paid its own fees
+            expect(report.fees.remaining).to.eq(parseEther('1'));
+
+            expect(report.transfers).to.deep.eq([
+                {
+                    target: await richWallet.getAddress(),
+                    maxValuePerUse: parseEther('1'),
+                    value: {
+                        limitType: LimitType.Lifetime,
+                        limit: parseEther('2'),
+                        remaining: parseEther('1'),
+                        resetsAt: null,
+                    },
+                },
+            ]);
+
+            const [call] = report.calls;
+            expect(call.selector).to.eq(spec.callPolicies[0].selector);
+            expect(call.value.remaining).to.be.null;
+            expect(call.constraints[0].usage.remaining).to.be.null;
+            expect(call.constraints[1].usage).to.deep.eq({
+                limitType: LimitType.Allowance,
+                limit: parseEther('100'),
+                remaining: parseEther('90'),
+                resetsAt:
+                    (BigInt(block.timestamp) / 86_400n + 1n) * 86_400n,
+            });
+        });
+
+        it('should name functions and parameters in the text report', async () => {
+            const report = await inspector.report(
+                await account.getAddress(),
+                spec,
+            );
+
+            const text = formatSessionReport(report, [erc20.interface]);
+
+            expect(text).to.contain('status: Active');
+            expect(text).to.contain('fees: 1.0 of 1.0 left');
+            expect(text).to.contain(
+                `transfer to ${await richWallet.getAddress()}: 1.0 of 2.0 left`,
+            );
+            expect(text).to.contain('call transfer(address,uint256)');
+            expect(text).to.contain(
+                `value: any value, ${parseEther('90')} of ${parseEther('100')} left, resets at`,
+            );
+        });
+
+        it('should format timestamps past the range of dates', async () => {
+            const state = await inspector.state(
+                await account.getAddress(),
+                spec,
+            );
+            const report = buildSessionReport(
+                { ...spec, expiresAt: MaxUint256 },
+                state,
+                0,
+            );
+
+            expect(formatSessionReport(report)).to.contain(
+                'expires at: never',
+            );
+        });
+
+        it('should refuse the state of another spec', async () => {
+            const state = await inspector.state(
+                await account.getAddress(),
+                spec,
+            );
+
+            expect(() =>
+                buildSessionReport(
+                    { ...spec, transferPolicies: [] },
+                    state,
+                    0,
+                ),
+            ).to.throw('Session state does not match the session spec');
+        });
+    });
+});
@@ -5,7 +5,13 @@
  */
 import { assert, expect } from 'chai';
 import type { ec } from 'elliptic';
-import { HDNodeWallet, parseEther } from 'ethers';
+import {
+    HDNodeWallet,
+    dataSlice,
+    hexlify,
+    parseEther,
+    randomBytes,
+} from 'ethers';
 import * as hre from 'hardhat';
 import { Provider, Wallet, utils } from 'zksync-ethers';
 import type { Contract } from 'zksync-ethers';
@@ -23,6 +29,7 @@ import {
 import { addR1Validator } from '../../utils/managers/validatormanager';
 import { encodePublicKey } from '../../utils/p256';
 import { addR1Key } from '../../utils/managers/ownermanager';
+import { R1Signer } from '../../utils/signers';
 
 describe('AGW Contracts - TEE Validator tests', () => {
     let deployer: ClaveDeployer;
@@ -74,6 +81,37 @@ describe('AGW Contracts - TEE Validator tests', () => {
             expect(await account.r1IsValidator(validatorAddress)).to.be.true;
         });
 
+        it('should cover the verification gas of a valid signature', async () => {
+            const signer = new R1Signer(keyPair);
+            const digest = hexlify(randomBytes(32));
+            const publicKey = encodePublicKey(keyPair);
+            const pubKey = [
+                dataSlice(publicKey, 0, 32),
+                dataSlice(publicKey, 32),
+            ];
+            const signature = await signer.sign(digest);
+
+            expect(
+                await teeValidator.validateSignature(digest, signature, pubKey),
+            ).to.be.true;
+
+            const [signatureGas, dummyGas] = await Promise.all([
+                teeValidator.validateSignature.estimateGas(
+                    digest,
+                    signature,
+                    pubKey,
+                ),
+                teeValidator.validateSignature.estimateGas(
+                    digest,
+                    signer.dummySignature(),
+                    pubKey,
+                ),
+            ]);
+            expect(signatureGas - dummyGas).to.be.lessThanOrEqual(
+                signer.verificationGas(),
+            );
+        });
+
         describe('Signature checks', () => {
             let richAddress: string;
             let richBalanceBefore: bigint;
@@ -6,15 +6,36 @@
 import { expect } from 'chai';
 import type { ec } from 'elliptic';
 import type { BytesLike, HDNodeWallet } from 'ethers';
-import { getAddress, hexlify, parseEther, randomBytes } from 'ethers';
+import {
+    AbiCoder,
+    getAddress,
+    hexlify,
+    parseEther,
+    randomBytes,
+} from 'ethers';
 import * as hre from 'hardhat';
-import type { Contract, Wallet } from 'zksync-ethers';
-import { Provider } from 'zksync-ethers';
+import type { Contract } from 'zksync-ethers';
+import { Provider, Wallet } from 'zksync-ethers';
 
-import { LOCAL_RICH_WALLETS, getWallet } from '../../deploy/utils';
+import {
+    AccountInitializerBuilder,
+    getInitializerSelector,
+} from '../../deploy/initializer';
+import {
+    LOCAL_RICH_WALLETS,
+    getContractBytecodeHash,
+    getWallet,
+} from '../../deploy/utils';
+import type { AccountFactoryConfig } from '../utils/address';
+import {
+    getAccountFactoryConfig,
+    getAccountSalt,
+    getAddressForSalt,
+    getAddressForSaltAndImplementation,
+} from '../utils/address';
 import { ClaveDeployer } from '../utils/deployer';
 import { fixture } from '../utils/fixture';
-import { VALIDATORS } from '../utils/names';
+import { CONTRACT_NAMES, VALIDATORS } from '../utils/names';
 
 describe('AGW Contracts - Deployer class tests', () => {
     let deployer: ClaveDeployer;
@@ -137,4 +158,101 @@ describe('AGW Contracts - Deployer class tests', () => {
 
         });
     });
+
+    describe('Initializer', () => {
+        it('should use the selector the factory expects', async () => {
+            expect(getInitializerSelector()).to.eq(
+                await factory.initializerSelector(),
+            );
+        });
+
+        it('should deploy an account with modules', async () => {
+            const newWallet = Wallet.createRandom();
+            const mockModule = await deployer.deployCustomContract(
+                'MockModule',
+                [],
+            );
+
+            const initializer = await new AccountInitializerBuilder(
+                newWallet.address,
+                await eoaValidator.getAddress(),
+            )
+                .module(
+                    await mockModule.getAddress(),
+                    AbiCoder.defaultAbiCoder().encode(['uint256'], [7]),
+                )
+                .buildFor(factory);
+
+            const newAccount = await deployer.account(
+                newWallet,
+                factory,
+                eoaValidator,
+                { initializer },
+            );
+
+            expect(await newAccount.k1ListOwners()).to.deep.eq([
+                newWallet.address,
+            ]);
+            expect(await newAccount.listModules()).to.deep.eq([
+                await mockModule.getAddress(),
+            ]);
+            expect(
+                await mockModule.values(await newAccount.getAddress()),
+            ).to.eq(7n);
+        });
+    });
+
+    describe('Counterfactual addresses', () => {
+        let config: AccountFactoryConfig;
+
+        before(async () => {
+            const proxyArtifact = await hre.zksyncEthers.loadArtifact(
+                CONTRACT_NAMES.PROXY,
+            );
+
+            config = {
+                factoryAddress: await factory.getAddress(),
+                implementationAddress: await implementation.getAddress(),
+                proxyBytecodeHash: getContractBytecodeHash(
+                    proxyArtifact.bytecode,
+                ),
+            };
+        });
+
+        it('should read the same config from the factory', async () => {
+            expect(await getAccountFactoryConfig(factory)).to.deep.eq(config);
+        });
+
+        it('should derive the address of a deployed account', async () => {
+            expect(
+                getAddressForSalt(config, getAccountSalt(wallet.address)),
+            ).to.eq(await account.getAddress());
+        });
+
+        it('should match getAddressForSalt', async () => {
+            const salt = hexlify(randomBytes(32));
+
+            expect(getAddressForSalt(config, salt)).to.eq(
+                await factory.getAddressForSalt(salt),
+            );
+        });
+
+        it('should match getAddressForSaltAndImplementation', async () => {
+            const salt = hexlify(randomBytes(32));
+            const otherImplementation = Wallet.createRandom().address;
+
+            expect(
+                getAddressForSaltAndImplementation(
+                    config,
+                    salt,
+                    otherImplementation,
+                ),
+            ).to.eq(
+                await factory.getAddressForSaltAndImplementation(
+                    salt,
+                    otherImplementation,
+                ),
+            );
+        });
+    });
 });
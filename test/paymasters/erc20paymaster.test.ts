@@ -14,8 +14,18 @@ import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCall
 import { ClaveDeployer } from '../utils/deployer';
 import { fixture } from '../utils/fixture';
 import { PAYMASTERS, VALIDATORS } from '../utils/names';
-import { getERC20PaymasterInput, getOraclePayload } from '../utils/paymasters';
+import { MockOraclePayloadProvider } from '../utils/oracle';
+import type { ERC20FeeQuote } from '../utils/paymasters';
 import {
+    getERC20PaymasterInput,
+    getOraclePayload,
+    quoteERC20PaymasterFee,
+    withFeeAllowanceReset,
+    withFeeApproval,
+} from '../utils/paymasters';
+import { K1Signer } from '../utils/signers';
+import {
+    AGWTransactionBuilder,
     ethTransfer,
     prepareBatchTx,
     prepareEOATx,
@@ -34,6 +44,7 @@ describe('AGW Contracts - ERC-20 Paymaster tests', () => {
 
     let erc20Paymaster: Contract;
     let erc20: Contract;
+    let oracle: MockOraclePayloadProvider;
 
     before(async () => {
         richWallet = getWallet(hre, LOCAL_RICH_WALLETS[0].privateKey);
@@ -65,6 +76,12 @@ describe('AGW Contracts - ERC-20 Paymaster tests', () => {
         });
 
         await deployer.fund(50, await erc20Paymaster.getAddress());
+
+        const block = await provider.getBlock('latest');
+        oracle = new MockOraclePayloadProvider(
+            { ETH: 1500 },
+            block.timestamp * 1000,
+        );
     });
 
     it('Should fund the paymaster and account', async () => {
@@ -133,7 +150,7 @@ describe('AGW Contracts - ERC-20 Paymaster tests', () => {
                     paymasterAddress,
                     await erc20.getAddress(),
                     parseEther('50'),
-                    await getOraclePayload(erc20Paymaster),
+                    await getOraclePayload(erc20Paymaster, oracle),
                 ),
             );
             const txReceipt = await provider.broadcastTransaction(
@@ -195,7 +212,7 @@ describe('AGW Contracts - ERC-20 Paymaster tests', () => {
                     paymasterAddress,
                     await erc20.getAddress(),
                     parseEther('50'),
-                    await getOraclePayload(erc20Paymaster),
+                    await getOraclePayload(erc20Paymaster, oracle),
                 ),
             );
 
@@ -258,7 +275,7 @@ describe('AGW Contracts - ERC-20 Paymaster tests', () => {
                     paymasterAddress,
                     await erc20.getAddress(),
                     parseEther('50'),
-                    await getOraclePayload(erc20Paymaster),
+                    await getOraclePayload(erc20Paymaster, oracle),
                 ),
                 wallet,
             );
@@ -292,4 +309,429 @@ describe('AGW Contracts - ERC-20 Paymaster tests', () => {
             );
         });
     });
+
+    describe('Fee quotes', () => {
+        let accountAddress: string;
+        let richAddress: string;
+        let paymasterAddress: string;
+        let tokenAddress: string;
+        let builder: AGWTransactionBuilder;
+        let oraclePayload: string;
+
+        before(async () => {
+            [accountAddress, richAddress, paymasterAddress, tokenAddress] =
+                await Promise.all([
+                    account.getAddress(),
+                    richWallet.getAddress(),
+                    erc20Paymaster.getAddress(),
+                    erc20.getAddress(),
+                ]);
+            builder = new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            );
+            oraclePayload = await getOraclePayload(erc20Paymaster, oracle);
+        });
+
+        // Earlier transactions leave allowances the quotes should not rely on
+        beforeEach(async () => {
+            const tx = await prepareEOATx(
+                provider,
+                account,
+                {
+                    to: tokenAddress,
+                    data: erc20.interface.encodeFunctionData('approve', [
+                        paymasterAddress,
+                        0,
+                    ]),
+                },
+                await eoaValidator.getAddress(),
+                wallet,
+            );
+            await (
+                await provider.broadcastTransaction(utils.serializeEip712(tx))
+            ).wait();
+        });
+
+        it('should quote the exact allowance the paymaster takes', async () => {
+            const txData = ethTransfer(richAddress, 1);
+            const fee = await builder.estimateFee(
+                account,
+                txData,
+                [],
+                getERC20PaymasterInput(
+                    paymasterAddress,
+                    tokenAddress,
+                    parseEther('50'),
+                    oraclePayload,
+                ),
+            );
+            const quote = await quoteERC20PaymasterFee(
+                erc20Paymaster,
+                tokenAddress,
+                fee,
+                oraclePayload,
+            );
+            expect(quote.rate).to.eq(3000n * 10n ** 18n);
+
+            const tx = await builder.populate(
+                account,
+                txData,
+                [],
+                getERC20PaymasterInput(
+                    paymasterAddress,
+                    tokenAddress,
+                    quote.minimalAllowance,
+                    oraclePayload,
+                ),
+                {
+                    gasLimit: quote.gasLimit,
+                    maxFeePerGas: quote.maxFeePerGas,
+                    maxPriorityFeePerGas: quote.maxFeePerGas,
+                },
+            );
+            await (
+                await provider.broadcastTransaction(utils.serializeEip712(tx))
+            ).wait();
+
+            expect(
+                await erc20.allowance(accountAddress, paymasterAddress),
+            ).to.eq(0n);
+        });
+
+        it('should fail with an allowance below the quote', async () => {
+            const quote = await quoteERC20PaymasterFee(
+                erc20Paymaster,
+                tokenAddress,
+                {
+                    gasLimit: 5_000_000,
+                    maxFeePerGas: await provider.getGasPrice(),
+                },
+                oraclePayload,
+            );
+            const populate = async (
+                minimalAllowance: bigint,
+            ): Promise<string> =>
+                utils.serializeEip712(
+                    await builder.populate(
+                        account,
+                        ethTransfer(richAddress, 1),
+                        [],
+                        getERC20PaymasterInput(
+                            paymasterAddress,
+                            tokenAddress,
+                            minimalAllowance,
+                            oraclePayload,
+                        ),
+                        {
+                            gasLimit: quote.gasLimit,
+                            maxFeePerGas: quote.maxFeePerGas,
+                            maxPriorityFeePerGas: quote.maxFeePerGas,
+                        },
+                    ),
+                );
+
+            // The node reports the selector of the paymaster's revert
+            await expect(
+                provider.broadcastTransaction(
+                    await populate(quote.minimalAllowance - 1n),
+                ),
+            ).to.be.rejectedWith(
+                erc20Paymaster.interface.getError(
+                    'LESS_ALLOWANCE_FOR_PAYMASTER',
+                )!.selector,
+            );
+
+            const accountERC20BalanceBefore =
+                await erc20.balanceOf(accountAddress);
+            await (
+                await provider.broadcastTransaction(
+                    await populate(quote.minimalAllowance),
+                )
+            ).wait();
+
+            // Unused gas is refunded in the token after execution
+            expect(
+                await erc20.balanceOf(accountAddress),
+            ).to.be.greaterThanOrEqual(
+                accountERC20BalanceBefore - quote.minimalAllowance,
+            );
+        });
+
+        describe('Batches', () => {
+            let calls: Array<CallStruct>;
+
+            before(async () => {
+                calls = [
+                    {
+                        target: richAddress,
+                        allowFailure: false,
+                        value: 1,
+                        callData: '0x',
+                    },
+                ];
+            });
+
+            // The approved amounts do not change the gas of the batch
+            const quoteBatch = async (
+                batch: (quote: ERC20FeeQuote) => Array<CallStruct>,
+            ): Promise<ERC20FeeQuote> => {
+                const roughQuote = await quoteERC20PaymasterFee(
+                    erc20Paymaster,
+                    tokenAddress,
+                    {
+                        gasLimit: 5_000_000,
+                        maxFeePerGas: await provider.getGasPrice(),
+                    },
+                    oraclePayload,
+                );
+                const fee = await builder.estimateFee(
+                    account,
+                    {
+                        to: accountAddress,
+                        data: account.interface.encodeFunctionData(
+                            'batchCall',
+                            [batch(roughQuote)],
+                        ),
+                        value: 1,
+                    },
+                    [],
+                    getERC20PaymasterInput(
+                        paymasterAddress,
+                        tokenAddress,
+                        roughQuote.minimalAllowance,
+                        oraclePayload,
+                    ),
+                );
+                return await quoteERC20PaymasterFee(
+                    erc20Paymaster,
+                    tokenAddress,
+                    fee,
+                    oraclePayload,
+                );
+            };
+
+            const sendBatch = async (
+                batch: Array<CallStruct>,
+                quote: ERC20FeeQuote,
+            ): Promise<void> => {
+                const batchTx = await builder.populateBatch(
+                    account,
+                    batch,
+                    [],
+                    getERC20PaymasterInput(
+                        paymasterAddress,
+                        tokenAddress,
+                        quote.minimalAllowance,
+                        oraclePayload,
+                    ),
+                    {
+                        gasLimit: quote.gasLimit,
+                        maxFeePerGas: quote.maxFeePerGas,
+                        maxPriorityFeePerGas: quote.maxFeePerGas,
+                    },
+                );
+                await (
+                    await provider.broadcastTransaction(
+                        utils.serializeEip712(batchTx),
+                    )
+                ).wait();
+            };
+
+            it('should approve the quoted allowance in a batch', async () => {
+                const quote = await quoteBatch((rough) =>
+                    withFeeApproval(calls, rough),
+                );
+
+                await sendBatch(withFeeApproval(calls, quote), quote);
+
+                // The fee was taken in validation, the approve is left over
+                expect(
+                    await erc20.allowance(accountAddress, paymasterAddress),
+                ).to.eq(quote.minimalAllowance);
+            });
+
+            it('should reset the allowance left by the fee in a batch', async () => {
+                const resetBatch = (): Array<CallStruct> =>
+                    withFeeAllowanceReset(
+                        calls,
+                        paymasterAddress,
+                        tokenAddress,
+                    );
+                const quote = await quoteBatch(resetBatch);
+
+                // prepareForPaymaster keeps an allowance above the quote
+                const approveTx = await prepareEOATx(
+                    provider,
+                    account,
+                    {
+                        to: tokenAddress,
+                        data: erc20.interface.encodeFunctionData('approve', [
+                            paymasterAddress,
+                            quote.minimalAllowance * 2n,
+                        ]),
+                    },
+                    await eoaValidator.getAddress(),
+                    wallet,
+                );
+                await (
+                    await provider.broadcastTransaction(
+                        utils.serializeEip712(approveTx),
+                    )
+                ).wait();
+
+                const paymasterERC20BalanceBefore =
+                    await erc20.balanceOf(paymasterAddress);
+                await sendBatch(resetBatch(), quote);
+
+                expect(
+                    await erc20.allowance(accountAddress, paymasterAddress),
+                ).to.eq(0n);
+                // The paymaster took the quote and refunded the unused gas
+                const paymasterERC20BalanceAfter =
+                    await erc20.balanceOf(paymasterAddress);
+                expect(paymasterERC20BalanceAfter).to.be.greaterThan(
+                    paymasterERC20BalanceBefore,
+                );
+                expect(paymasterERC20BalanceAfter).to.be.lessThanOrEqual(
+                    paymasterERC20BalanceBefore + quote.minimalAllowance,
+                );
+            });
+        });
+    });
+
+    describe('Oracle payloads', () => {
+        let timestamp: number;
+
+        before(async () => {
+            timestamp = (await provider.getBlock('latest')).timestamp * 1000;
+        });
+
+        it('should sign payloads the oracle accepts', async () => {
+            const mockOracle = await deployer.deployCustomContract(
+                'MockOracle',
+                [],
+            );
+
+            const payload = await getOraclePayload(
+                mockOracle,
+                new MockOraclePayloadProvider({ ETH: 1500 }, timestamp),
+            );
+            await (await mockOracle.getPairPrice(payload)).wait();
+
+            expect(await mockOracle.rateCheck()).to.eq(1500n * 10n ** 8n);
+        });
+
+        it('should sign the same payload for the same prices', async () => {
+            const sign = (prices: Record<string, number>): Promise<string> =>
+                new MockOraclePayloadProvider(prices, timestamp).getPayload();
+            const [payload, samePayload, otherPayload] = await Promise.all([
+                sign({ ETH: 1500 }),
+                sign({ ETH: 1500 }),
+                sign({ ETH: 1501 }),
+            ]);
+
+            expect(payload).to.eq(samePayload);
+            expect(payload).not.to.eq(otherPayload);
+            expect((payload.length - 2) % 64).to.eq(0);
+        });
+
+        it('should not sign for the production data service', async () => {
+            const testOracle = await deployer.deployCustomContract(
+                'TestOracle',
+                [],
+            );
+            const payload = await getOraclePayload(
+                testOracle,
+                new MockOraclePayloadProvider({ ETH: 1500 }, timestamp),
+            );
+
+            await expect(
+                testOracle.getPairPrice(payload),
+            ).to.be.revertedWithCustomError(testOracle, 'SignerNotAuthorised');
+        });
+
+        it('should charge the price of the payload', async () => {
+            const tokenAddress = await erc20.getAddress();
+            const richAddress = await richWallet.getAddress();
+            const mockOraclePaymaster = await deployer.deployCustomContract(
+                'MockOraclePaymaster',
+                [
+                    [{ tokenAddress, decimals: 18, priceMarkup: 20000 }],
+                    richAddress,
+                ],
+            );
+            const paymasterAddress = await mockOraclePaymaster.getAddress();
+            await deployer.fund(50, paymasterAddress);
+
+            const builder = new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            );
+            const [payload, higherPayload] = await Promise.all(
+                [2000, 2001].map((price) =>
+                    getOraclePayload(
+                        mockOraclePaymaster,
+                        new MockOraclePayloadProvider(
+                            { ETH: price },
+                            timestamp,
+                        ),
+                    ),
+                ),
+            );
+
+            const quote = await quoteERC20PaymasterFee(
+                mockOraclePaymaster,
+                tokenAddress,
+                {
+                    gasLimit: 5_000_000,
+                    maxFeePerGas: await provider.getGasPrice(),
+                },
+                payload,
+            );
+            // The markup of 20000 doubles the price
+            expect(quote.rate).to.eq(4000n * 10n ** 18n);
+
+            const populate = async (oraclePayload: string): Promise<string> =>
+                utils.serializeEip712(
+                    await builder.populate(
+                        account,
+                        ethTransfer(richAddress, 1),
+                        [],
+                        getERC20PaymasterInput(
+                            paymasterAddress,
+                            tokenAddress,
+                            quote.minimalAllowance,
+                            oraclePayload,
+                        ),
+                        {
+                            gasLimit: quote.gasLimit,
+                            maxFeePerGas: quote.maxFeePerGas,
+                            maxPriorityFeePerGas: quote.maxFeePerGas,
+                        },
+                    ),
+                );
+
+            // A price above the quoted one needs more than the quoted allowance
+            await expect(
+                provider.broadcastTransaction(await populate(higherPayload)),
+            ).to.be.rejectedWith(
+                mockOraclePaymaster.interface.getError(
+                    'LESS_ALLOWANCE_FOR_PAYMASTER',
+                )!.selector,
+            );
+
+            const paymasterERC20BalanceBefore =
+                await erc20.balanceOf(paymasterAddress);
+            await (
+                await provider.broadcastTransaction(await populate(payload))
+            ).wait();
+
+            expect(await erc20.balanceOf(paymasterAddress)).to.be.greaterThan(
+                paymasterERC20BalanceBefore,
+            );
+        });
+    });
 });
@@ -4,18 +4,26 @@
  * Proprietary and confidential
  */
 import { assert, expect } from 'chai';
-import { HDNodeWallet, parseEther } from 'ethers';
+import { HDNodeWallet, ZeroAddress, parseEther } from 'ethers';
 import * as hre from 'hardhat';
-import type { Contract, Wallet } from 'zksync-ethers';
-import { Provider, utils } from 'zksync-ethers';
+import type { Contract } from 'zksync-ethers';
+import { Provider, Wallet, utils } from 'zksync-ethers';
 
 import { LOCAL_RICH_WALLETS, getWallet } from '../../deploy/utils';
 import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCaller';
 import { ClaveDeployer } from '../utils/deployer';
 import { fixture } from '../utils/fixture';
+import { checkGaslessEligibility, planFeePayment } from '../utils/gasless';
 import { PAYMASTERS, VALIDATORS } from '../utils/names';
-import { getGaslessPaymasterInput } from '../utils/paymasters';
+import { MockOraclePayloadProvider } from '../utils/oracle';
 import {
+    getERC20PaymasterInput,
+    getGaslessPaymasterInput,
+    getOraclePayload,
+} from '../utils/paymasters';
+import { K1Signer } from '../utils/signers';
+import {
+    AGWTransactionBuilder,
     ethTransfer,
     prepareBatchTx,
     prepareEOATx,
@@ -308,6 +316,7 @@ describe('AGW Contracts - Gasless Paymaster tests', () => {
             const amount = parseEther('1');
 
             const txData = ethTransfer(richAddress, amount);
+            // Skip gas estimation, the paymaster is expected to reject it
             const tx = await prepareEOATx(
                 provider,
                 account,
@@ -316,6 +325,7 @@ describe('AGW Contracts - Gasless Paymaster tests', () => {
                 wallet,
                 undefined,
                 getGaslessPaymasterInput(paymasterAddress),
+                { gasLimit: 30_000_000 },
             );
 
             try {
@@ -428,4 +438,252 @@ describe('AGW Contracts - Gasless Paymaster tests', () => {
             );
         });
     });
+
+    describe('Eligibility preflight', () => {
+        let accountAddress: string;
+        let richAddress: string;
+        let builder: AGWTransactionBuilder;
+
+        before(async () => {
+            accountAddress = await account.getAddress();
+            richAddress = await richWallet.getAddress();
+            builder = new AGWTransactionBuilder(
+                provider,
+                new K1Signer(wallet),
+                await eoaValidator.getAddress(),
+            );
+        });
+
+        it('should accept limitless addresses', async () => {
+            const eligibility = await checkGaslessEligibility(
+                provider,
+                gaslessPaymaster,
+                accountAddress,
+            );
+
+            expect(eligibility.eligible).to.be.true;
+            expect(eligibility.limitless).to.be.true;
+            expect(eligibility.remainingUserLimit).to.be.null;
+        });
+
+        it('should reject accounts when the second registry is not set', async () => {
+            expect(await gaslessPaymaster.agwRegistry2()).to.eq(ZeroAddress);
+
+            const eligibility = await checkGaslessEligibility(
+                provider,
+                gaslessPaymaster,
+                Wallet.createRandom().address,
+            );
+
+            expect(eligibility.registered).to.be.false;
+            expect(eligibility.rejections).to.deep.eq(['REGISTRY_NOT_SET']);
+        });
+
+        it('should reject accounts that are not AGW accounts', async () => {
+            await (
+                await gaslessPaymaster.changeRegistry2(
+                    await registry.getAddress(),
+                )
+            ).wait();
+
+            const eligibility = await checkGaslessEligibility(
+                provider,
+                gaslessPaymaster,
+                Wallet.createRandom().address,
+            );
+
+            await (await gaslessPaymaster.changeRegistry2(ZeroAddress)).wait();
+
+            expect(eligibility.registered).to.be.false;
+            expect(eligibility.rejections).to.deep.eq(['NOT_AGW_ACCOUNT']);
+        });
+
+        it('should reject fees above the sponsored maximum', async () => {
+            const gasPrice = await provider.getGasPrice();
+            const eligibility = await checkGaslessEligibility(
+                provider,
+                gaslessPaymaster,
+                accountAddress,
+                {
+                    gasLimit: parseEther('1001') / gasPrice + 1n,
+                    maxFeePerGas: gasPrice,
+                },
+            );
+
+            expect(eligibility.rejections).to.deep.eq([
+                'EXCEEDS_MAX_SPONSORED_ETH',
+            ]);
+        });
+
+        it('should reject fees above the paymaster balance', async () => {
+            const [gasPrice, paymasterBalance] = await Promise.all([
+                provider.getGasPrice(),
+                provider.getBalance(await gaslessPaymaster.getAddress()),
+            ]);
+            // Below the sponsored maximum of 1000 ETH
+            const eligibility = await checkGaslessEligibility(
+                provider,
+                gaslessPaymaster,
+                accountAddress,
+                {
+                    gasLimit: paymasterBalance / gasPrice + 1n,
+                    maxFeePerGas: gasPrice,
+                },
+            );
+
+            expect(eligibility.paymasterBalance).to.eq(paymasterBalance);
+            expect(eligibility.requiredETH).to.be.greaterThan(
+                paymasterBalance,
+            );
+            expect(eligibility.rejections).to.deep.eq(['FAILED_FEE_TRANSFER']);
+        });
+
+        it('should plan a gasless transaction for eligible accounts', async () => {
+            const txData = ethTransfer(richAddress, 1);
+            const plan = await planFeePayment(
+                provider,
+                builder,
+                account,
+                txData,
+                [],
+                gaslessPaymaster,
+            );
+            expect(plan.method).to.eq('gasless');
+            expect(plan.eligibility.requiredETH).to.eq(
+                BigInt(plan.overrides.gasLimit ?? 0) *
+                    BigInt(plan.overrides.maxFeePerGas ?? 0),
+            );
+
+            const accountBalanceBefore = await provider.getBalance(
+                accountAddress,
+            );
+            const tx = await builder.populate(
+                account,
+                txData,
+                [],
+                plan.paymasterParams,
+                plan.overrides,
+            );
+            await (
+                await provider.broadcastTransaction(utils.serializeEip712(tx))
+            ).wait();
+
+            expect(await provider.getBalance(accountAddress)).to.eq(
+                accountBalanceBefore - 1n,
+            );
+        });
+
+        it('should fall back to self-pay once the user limit is reached', async () => {
+            await (
+                await gaslessPaymaster.removeLimitlessAddresses([
+                    accountAddress,
+                ])
+            ).wait();
+            await (await gaslessPaymaster.updateUserLimit(0)).wait();
+
+            const txData = ethTransfer(richAddress, 1);
+            const plan = await planFeePayment(
+                provider,
+                builder,
+                account,
+                txData,
+                [],
+                gaslessPaymaster,
+            );
+            expect(plan.method).to.eq('self');
+            expect(plan.paymasterParams).to.be.undefined;
+            expect(plan.eligibility.rejections).to.deep.eq([
+                'USER_LIMIT_REACHED',
+            ]);
+
+            const tx = await builder.populate(
+                account,
+                txData,
+                [],
+                plan.paymasterParams,
+                plan.overrides,
+            );
+            await (
+                await provider.broadcastTransaction(utils.serializeEip712(tx))
+            ).wait();
+        });
+
+        it('should fall back to the ERC-20 paymaster with the quoted allowance', async () => {
+            const erc20Paymaster = await deployer.paymaster(
+                PAYMASTERS.ERC20_MOCK,
+                {
+                    erc20: [
+                        {
+                            tokenAddress: await erc20.getAddress(),
+                            decimals: 18,
+                            priceMarkup: 20000,
+                        },
+                    ],
+                },
+            );
+            await deployer.fund(50, await erc20Paymaster.getAddress());
+
+            const block = await provider.getBlock('latest');
+            const oraclePayload = await getOraclePayload(
+                erc20Paymaster,
+                new MockOraclePayloadProvider(
+                    { ETH: 1500 },
+                    block.timestamp * 1000,
+                ),
+            );
+            const tokenAddress = await erc20.getAddress();
+
+            const txData = ethTransfer(richAddress, 1);
+            const plan = await planFeePayment(
+                provider,
+                builder,
+                account,
+                txData,
+                [],
+                gaslessPaymaster,
+                {
+                    paymaster: erc20Paymaster,
+                    token: tokenAddress,
+                    oraclePayload,
+                },
+            );
+            expect(plan.method).to.eq('erc20');
+            expect(plan.eligibility.rejections).to.deep.eq([
+                'USER_LIMIT_REACHED',
+            ]);
+
+            const quote = plan.quote!;
+            expect(quote.gasLimit).to.eq(BigInt(plan.overrides.gasLimit ?? 0));
+            expect(quote.minimalAllowance).to.eq(
+                (quote.requiredETH * quote.rate) / 10n ** 18n,
+            );
+            expect(plan.paymasterParams).to.deep.eq(
+                getERC20PaymasterInput(
+                    await erc20Paymaster.getAddress(),
+                    tokenAddress,
+                    quote.minimalAllowance,
+                    oraclePayload,
+                ),
+            );
+
+            const tokenBalanceBefore = await erc20.balanceOf(accountAddress);
+            const tx = await builder.populate(
+                account,
+                txData,
+                [],
+                plan.paymasterParams,
+                plan.overrides,
+            );
+            await (
+                await provider.broadcastTransaction(utils.serializeEip712(tx))
+            ).wait();
+
+            // Refunds of unused gas are paid in the token
+            const tokenBalanceAfter = await erc20.balanceOf(accountAddress);
+            expect(tokenBalanceAfter).to.be.lessThan(tokenBalanceBefore);
+            expect(tokenBalanceAfter).to.be.greaterThanOrEqual(
+                tokenBalanceBefore - quote.minimalAllowance,
+            );
+        });
+    });
 });
@@ -0,0 +1,73 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BytesLike } from 'ethers';
+import { AbiCoder, getAddress, hexlify, solidityPackedKeccak256 } from 'ethers';
+import type { Contract } from 'zksync-ethers';
+import { utils } from 'zksync-ethers';
+
+// State of an AccountFactory that account addresses depend on
+export type AccountFactoryConfig = {
+    factoryAddress: string;
+    implementationAddress: string;
+    // As computed by getContractBytecodeHash for the AccountProxy bytecode
+    proxyBytecodeHash: BytesLike;
+};
+
+// Reads the config once, addresses are derived offline afterwards
+export async function getAccountFactoryConfig(
+    factory: Contract,
+): Promise<AccountFactoryConfig> {
+    const [implementationAddress, proxyBytecodeHash] = await Promise.all([
+        factory.implementationAddress(),
+        factory.proxyBytecodeHash(),
+    ]);
+
+    return {
+        factoryAddress: await factory.getAddress(),
+        implementationAddress,
+        proxyBytecodeHash,
+    };
+}
+
+// AGWAccount.initialize only accepts the salt of its initial k1 owner
+export function getAccountSalt(initialK1Owner: string): string {
+    return solidityPackedKeccak256(['address'], [initialK1Owner]);
+}
+
+// Mirrors AccountFactory.getAddressForSalt
+export function getAddressForSalt(
+    config: AccountFactoryConfig,
+    salt: BytesLike,
+): string {
+    return getAddressForSaltAndImplementation(
+        config,
+        salt,
+        config.implementationAddress,
+    );
+}
+
+/**
+ * Mirrors AccountFactory.getAddressForSaltAndImplementation
+ * @dev The proxy's constructor input is the implementation, so accounts
+ * deployed before changeImplementation keep their old address
+ */
+export function getAddressForSaltAndImplementation(
+    config: AccountFactoryConfig,
+    salt: BytesLike,
+    implementationAddress: string,
+): string {
+    return getAddress(
+        utils.create2Address(
+            config.factoryAddress,
+            hexlify(config.proxyBytecodeHash),
+            salt,
+            AbiCoder.defaultAbiCoder().encode(
+                ['address'],
+                [implementationAddress],
+            ),
+        ),
+    );
+}
@@ -0,0 +1,292 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type {
+    BigNumberish,
+    ErrorDescription,
+    FunctionFragment,
+    InterfaceAbi,
+    Result,
+} from 'ethers';
+import { Interface, dataLength, getAddress } from 'ethers';
+import type { Provider } from 'zksync-ethers';
+
+import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCaller';
+
+// Calls with value reach their target through the MsgValueSimulator
+const MSG_VALUE_SIMULATOR_ADDRESS = '0x0000000000000000000000000000000000008009';
+
+const BATCH_CALLER_INTERFACE = new Interface([
+    'function batchCall((address target, bool allowFailure, uint256 value, bytes callData)[] _calls)',
+]);
+
+export type BatchCallOptions = {
+    value?: BigNumberish;
+    // The batch goes on if the call reverts, else the whole batch reverts
+    allowFailure?: boolean;
+};
+
+export type CallOutcome = {
+    index: number;
+    target: string;
+    // Null for plain ETH transfers
+    functionName: string | null;
+    // Rolled back calls succeeded, but a later call reverted the batch
+    status: 'success' | 'failed' | 'rolled back' | 'not executed';
+    // Raw return or revert data
+    returnData?: string;
+    // Decoded return values of a successful call
+    result?: Result;
+    // Decoded revert of a failed call
+    reason?: string;
+    error?: ErrorDescription;
+};
+
+// Frame of a debug_traceTransaction callTracer result
+export type CallFrame = {
+    type: string;
+    from: string;
+    to: string;
+    value?: string;
+    input: string;
+    output?: string;
+    error?: string | null;
+    revertReason?: string | null;
+    calls?: Array<CallFrame>;
+};
+
+type BatchLeg = {
+    call: CallStruct;
+    iface: Interface | null;
+    fragment: FunctionFragment | null;
+};
+
+/**
+ * Composes BatchCaller.batchCall calls from ABIs, and decodes each call's outcome
+ * @dev BatchCaller emits no events and drops return data, outcomes are read
+ * from the callTracer trace of the executed transaction
+ */
+export class BatchComposer {
+    private legs: Array<BatchLeg> = [];
+
+    public add(
+        target: string,
+        abi: Interface | InterfaceAbi,
+        functionName: string,
+        args: ReadonlyArray<unknown> = [],
+        options: BatchCallOptions = {},
+    ): this {
+        const iface = abi instanceof Interface ? abi : new Interface(abi);
+        const fragment = iface.getFunction(functionName);
+        if (!fragment) {
+            throw new Error(`Function ${functionName} is not in the ABI`);
+        }
+
+        this.legs.push({
+            call: {
+                target: getAddress(target),
+                allowFailure: options.allowFailure ?? false,
+                value: BigInt(options.value ?? 0),
+                callData: iface.encodeFunctionData(fragment, args),
+            },
+            iface,
+            fragment,
+        });
+        return this;
+    }
+
+    public transfer(
+        target: string,
+        value: BigNumberish,
+        allowFailure = false,
+    ): this {
+        this.legs.push({
+            call: {
+                target: getAddress(target),
+                allowFailure,
+                value: BigInt(value),
+                callData: '0x',
+            },
+            iface: null,
+            fragment: null,
+        });
+        return this;
+    }
+
+    // Calls for populateBatch, prepareBatchTx and prepareMockBatchTx
+    public calls(): Array<CallStruct> {
+        return this.legs.map((leg) => leg.call);
+    }
+
+    public totalValue(): bigint {
+        return this.legs.reduce(
+            (total, leg) => total + BigInt(leg.call.value),
+            0n,
+        );
+    }
+
+    // Needs a node that supports debug_traceTransaction
+    public async outcomes(
+        provider: Provider,
+        accountAddress: string,
+        txHash: string,
+    ): Promise<Array<CallOutcome>> {
+        const trace: CallFrame = await provider.send(
+            'debug_traceTransaction',
+            [txHash, { tracer: 'callTracer' }],
+        );
+
+        return this.decodeOutcomes(trace, accountAddress);
+    }
+
+    /**
+     * Matches the calls of the batchCall frame to the composed calls, in order
+     * @dev Calls after a failure that reverted the batch are not executed
+     */
+    public decodeOutcomes(
+        trace: CallFrame,
+        accountAddress: string,
+    ): Array<CallOutcome> {
+        const batchData = BATCH_CALLER_INTERFACE.encodeFunctionData(
+            'batchCall',
+            [this.calls()],
+        ).toLowerCase();
+        const batchFrame = findFrame(
+            trace,
+            (frame) =>
+                sameAddress(frame.to, accountAddress) &&
+                frame.input.toLowerCase() === batchData,
+        );
+        const frames = batchFrame?.calls ?? [];
+        const rolledBack = Boolean(batchFrame?.error);
+
+        let cursor = 0;
+        return this.legs.map((leg, index) => {
+            const target = String(leg.call.target);
+            const outcome: CallOutcome = {
+                index,
+                target,
+                functionName: leg.fragment?.name ?? null,
+                status: 'not executed',
+            };
+
+            for (; cursor < frames.length; cursor++) {
+                const frame = targetFrame(frames[cursor], target);
+                if (frame) {
+                    cursor++;
+                    const decoded = decodeFrame(leg, frame);
+                    if (rolledBack && decoded.status === 'success') {
+                        decoded.status = 'rolled back';
+                    }
+                    return { ...outcome, ...decoded };
+                }
+            }
+            return outcome;
+        });
+    }
+}
+
+function decodeFrame(
+    leg: BatchLeg,
+    frame: CallFrame,
+): Partial<CallOutcome> {
+    const returnData = frame.output ?? '0x';
+
+    if (frame.error) {
+        const error = parseRevert(leg.iface, returnData);
+        return {
+            status: 'failed',
+            returnData,
+            reason: error
+                ? formatError(error)
+                : frame.revertReason || frame.error,
+            error: error ?? undefined,
+        };
+    }
+
+    if (!leg.iface || !leg.fragment || dataLength(returnData) === 0) {
+        return { status: 'success', returnData };
+    }
+    return {
+        status: 'success',
+        returnData,
+        result: parseResult(leg.iface, leg.fragment, returnData) ?? undefined,
+    };
+}
+
+// Return data that does not match the fragment is left raw
+function parseResult(
+    iface: Interface,
+    fragment: FunctionFragment,
+    data: string,
+): Result | null {
+    try {
+        return iface.decodeFunctionResult(fragment, data);
+    } catch {
+        return null;
+    }
+}
+
+// Custom errors of the ABI, Error(string) and Panic(uint256)
+function parseRevert(
+    iface: Interface | null,
+    data: string,
+): ErrorDescription | null {
+    if (dataLength(data) < 4) {
+        return null;
+    }
+
+    try {
+        return (iface ?? new Interface([])).parseError(data);
+    } catch {
+        return null;
+    }
+}
+
+function formatError(error: ErrorDescription): string {
+    if (error.name === 'Error') {
+        return String(error.args[0]);
+    }
+    return `${error.name}(${error.args.map(String).join(', ')})`;
+}
+
+// Frame of the call to the target, behind the MsgValueSimulator if it has value
+function targetFrame(frame: CallFrame, target: string): CallFrame | null {
+    if (sameAddress(frame.to, target)) {
+        return frame;
+    }
+    if (sameAddress(frame.to, MSG_VALUE_SIMULATOR_ADDRESS)) {
+        const inner = (frame.calls ?? []).find((call) =>
+            sameAddress(call.to, target),
+        );
+        if (inner) {
+            // A revert of the simulator reverts the call to the target
+            return frame.error && !inner.error
+                ? { ...inner, error: frame.error }
+                : inner;
+        }
+    }
+    return null;
+}
+
+function findFrame(
+    frame: CallFrame,
+    predicate: (frame: CallFrame) => boolean,
+): CallFrame | null {
+    if (predicate(frame)) {
+        return frame;
+    }
+    for (const call of frame.calls ?? []) {
+        const found = findFrame(call, predicate);
+        if (found) {
+            return found;
+        }
+    }
+    return null;
+}
+
+function sameAddress(a: string | undefined, b: string): boolean {
+    return a !== undefined && a.toLowerCase() === b.toLowerCase();
+}
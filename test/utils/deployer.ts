@@ -3,11 +3,16 @@
  * Unauthorized copying of this file, via any medium is strictly prohibited
  * Proprietary and confidential
  */
-import { AbiCoder, BaseWallet, BigNumberish, HDNodeWallet, ZeroAddress, keccak256, parseEther } from 'ethers';
+import { BaseWallet, BigNumberish, HDNodeWallet, keccak256, parseEther } from 'ethers';
 import type { HardhatRuntimeEnvironment } from 'hardhat/types';
 import type { Wallet } from 'zksync-ethers';
 import { Contract, utils } from 'zksync-ethers';
 
+import {
+    AccountInitializerBuilder,
+    EMPTY_CALL,
+    getInitializerSelector,
+} from '../../deploy/initializer';
 import { deployContract, getWallet } from '../../deploy/utils';
 import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCaller';
 import { CONTRACT_NAMES, PAYMASTERS, type VALIDATORS } from './names';
@@ -74,7 +79,7 @@ export class ClaveDeployer {
             CONTRACT_NAMES.FACTORY,
             [
                 await implementation.getAddress(),
-                '0xb4e581f5',
+                getInitializerSelector(),
                 await registry.getAddress(),
                 bytecodeHash,
                 this.deployerWallet.address,
@@ -134,40 +139,16 @@ export class ClaveDeployer {
             callValue = 0;
         }
         if (!initialCall) {
-            initialCall = {
-                target: ZeroAddress,
-                allowFailure: false,
-                value: 0,
-                callData: '0x',
-            };
+            initialCall = EMPTY_CALL;
         }
 
-        const abiCoder = AbiCoder.defaultAbiCoder();
-
         if (!initializer) {
-         initializer =
-            '0xb4e581f5' +
-            abiCoder
-                .encode(
-                    [
-                        'address',
-                        'address',
-                        'bytes[]',
-                        'tuple(address target,bool allowFailure,uint256 value,bytes calldata)',
-                    ],
-                    [
-                        wallet.address,
-                        await validator.getAddress(),
-                        [],
-                        [
-                            initialCall.target,
-                            initialCall.allowFailure,
-                            initialCall.value,
-                            initialCall.callData,
-                        ],
-                    ],
-                )
-                .slice(2);
+            initializer = await new AccountInitializerBuilder(
+                wallet.address,
+                await validator.getAddress(),
+            )
+                .call(initialCall)
+                .buildFor(factory);
         }
 
         const deployPromise = await Promise.all([
@@ -0,0 +1,167 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type {
+    BigNumberish,
+    BytesLike,
+    TypedDataDomain,
+    TypedDataField,
+} from 'ethers';
+import {
+    TypedDataEncoder,
+    getAddress,
+    hashMessage,
+    hexlify,
+    recoverAddress,
+    sha256,
+} from 'ethers';
+import type { Contract } from 'zksync-ethers';
+
+import { verify } from './p256';
+import { verifyPasskeySignature } from './passkey';
+import type { AccountSigner } from './signers';
+import { decodeERC1271Signature, encodeERC1271Signature } from './signatures';
+
+// Domain of ERC1271Handler.__ERC1271Handler_init
+export const AGW_DOMAIN_NAME = 'AbstractGlobalWallet';
+export const AGW_DOMAIN_VERSION = '1.0.0';
+
+export const AGW_MESSAGE_TYPES: Record<string, Array<TypedDataField>> = {
+    AGWMessage: [{ name: 'signedHash', type: 'bytes32' }],
+};
+
+const ERC1271_MAGIC = '0x1626ba7e';
+
+// Owner key of the account, checked the way its validator does
+export type AGWOwner =
+    | { type: 'k1'; address: string }
+    // x || y, as the account stores R1 owners
+    | { type: 'r1'; publicKey: string }
+    | { type: 'passkey'; publicKey: string };
+
+export function getAGWDomain(
+    account: string,
+    chainId: BigNumberish,
+): TypedDataDomain {
+    return {
+        name: AGW_DOMAIN_NAME,
+        version: AGW_DOMAIN_VERSION,
+        chainId,
+        verifyingContract: getAddress(account),
+    };
+}
+
+// The digest validators check in isValidSignature, the same as getEip712Hash
+export function getAGWMessageHash(
+    account: string,
+    chainId: BigNumberish,
+    signedHash: BytesLike,
+): string {
+    return TypedDataEncoder.hash(
+        getAGWDomain(account, chainId),
+        AGW_MESSAGE_TYPES,
+        { signedHash: hexlify(signedHash) },
+    );
+}
+
+/**
+ * Signs hashes for isValidSignature of an AGW account, offline
+ * @dev Results are the encoded `signatureAndValidator` argument
+ */
+export class AGWMessageSigner {
+    private signer: AccountSigner;
+    private validatorAddress: string;
+    private accountAddress: string;
+    private chainId: BigNumberish;
+
+    constructor(
+        signer: AccountSigner,
+        validatorAddress: string,
+        accountAddress: string,
+        chainId: BigNumberish,
+    ) {
+        this.signer = signer;
+        this.validatorAddress = validatorAddress;
+        this.accountAddress = accountAddress;
+        this.chainId = chainId;
+    }
+
+    public async signHash(signedHash: BytesLike): Promise<string> {
+        const signature = await this.signer.sign(
+            getAGWMessageHash(this.accountAddress, this.chainId, signedHash),
+        );
+
+        return encodeERC1271Signature(signature, this.validatorAddress);
+    }
+
+    // EIP-191 message, verified with isValidSignature(hashMessage(message))
+    public async signMessage(message: string | Uint8Array): Promise<string> {
+        return await this.signHash(hashMessage(message));
+    }
+
+    // EIP-712 data of a dApp's domain, verified with isValidSignature(hash)
+    public async signTypedData(
+        domain: TypedDataDomain,
+        types: Record<string, Array<TypedDataField>>,
+        value: Record<string, unknown>,
+    ): Promise<string> {
+        return await this.signHash(TypedDataEncoder.hash(domain, types, value));
+    }
+}
+
+/**
+ * Checks a signature without the chain, for the given owner only
+ * @dev The account also requires the owner and validator to be registered,
+ * which only verifySignature can check
+ */
+export function verifySignatureLocally(
+    account: string,
+    chainId: BigNumberish,
+    signedHash: BytesLike,
+    signatureAndValidator: BytesLike,
+    owner: AGWOwner,
+): boolean {
+    let signature: string;
+    try {
+        ({ signature } = decodeERC1271Signature(signatureAndValidator));
+    } catch {
+        return false;
+    }
+
+    const digest = getAGWMessageHash(account, chainId, signedHash);
+
+    switch (owner.type) {
+        case 'k1':
+            try {
+                return (
+                    recoverAddress(digest, signature) ===
+                    getAddress(owner.address)
+                );
+            } catch {
+                return false;
+            }
+        case 'r1':
+            return (
+                signature.length === 130 &&
+                verify(sha256(digest), signature, owner.publicKey)
+            );
+        case 'passkey':
+            return verifyPasskeySignature(digest, signature, owner.publicKey);
+    }
+}
+
+// Asks the account, as dApps verifying a signature do
+export async function verifySignature(
+    account: Contract,
+    signedHash: BytesLike,
+    signatureAndValidator: BytesLike,
+): Promise<boolean> {
+    const magicValue = await account.isValidSignature(
+        signedHash,
+        signatureAndValidator,
+    );
+
+    return magicValue === ERC1271_MAGIC;
+}
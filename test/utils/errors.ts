@@ -0,0 +1,845 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BigNumberish, BytesLike, Result } from 'ethers';
+import {
+    AbiCoder,
+    Interface,
+    dataLength,
+    dataSlice,
+    hexlify,
+    isHexString,
+} from 'ethers';
+import type { Provider } from 'zksync-ethers';
+
+export type ErrorDescription = {
+    // Messages of errors with parameters may use them
+    message: string | ((args: Result) => string);
+    remedy?: string;
+};
+
+export type ReasonDescription = {
+    message: string;
+    remedy?: string;
+};
+
+// Where a revert bubbled from, when it did not come from the called contract
+export type RevertOrigin = {
+    through: 'batchCall' | 'executeFromModule';
+    target: string;
+    // Index of the failing call of the batch
+    index?: number;
+};
+
+export type DecodedError = {
+    // Error name, Error for string reverts and Panic for panics
+    name: string;
+    // null for reverts without data
+    selector: string | null;
+    args: Array<unknown>;
+    message: string;
+    remedy: string | null;
+    data: string;
+    origin?: RevertOrigin;
+    // Revert of the call that made the batch fail
+    cause?: DecodedError;
+};
+
+// A call that reverted, from is the address the call was made from
+export type RevertedCall = {
+    from: string;
+    to: string;
+    data: string;
+    value?: BigNumberish;
+};
+
+// Custom errors of the suite, by signature
+export const SUITE_ERRORS: Record<string, ErrorDescription> = {
+    // AGW
+    'INSUFFICIENT_FUNDS()': {
+        message: 'The account can not pay the transaction fee',
+        remedy: 'Fund the account or use a paymaster',
+    },
+    'FEE_PAYMENT_FAILED()': {
+        message: 'The account failed to pay the bootloader',
+        remedy: 'Check the account balance and retry',
+    },
+    'UNAUTHORIZED_OUTSIDE_TRANSACTION()': {
+        message: 'The sender is not a K1 owner of the account',
+        remedy: 'Send it from a K1 owner EOA, or send it as an account transaction',
+    },
+    'VALIDATION_HOOK_FAILED()': {
+        message: 'A validation hook rejected the transaction',
+        remedy: 'Check the hook data in the signature, such as the session spec',
+    },
+    // Linked list
+    'INVALID_PREV()': {
+        message: 'The linked list entry before the removed one is wrong',
+    },
+    'INVALID_BYTES()': {
+        message: 'The public key is empty or a sentinel value',
+        remedy: 'Pass a 64 byte public key',
+    },
+    'BYTES_ALREADY_EXISTS()': {
+        message: 'The public key is already registered',
+    },
+    'BYTES_NOT_EXISTS()': {
+        message: 'The public key is not registered',
+        remedy: 'List the owners of the account and pick an existing one',
+    },
+    'INVALID_ADDRESS()': {
+        message: 'The address is zero or a sentinel value',
+    },
+    'ADDRESS_ALREADY_EXISTS()': {
+        message: 'The address is already registered',
+    },
+    'ADDRESS_NOT_EXISTS()': {
+        message: 'The address is not registered',
+        remedy: 'List the entries of the account and pick an existing one',
+    },
+    // Owner manager
+    'EMPTY_OWNERS()': {
+        message: 'The last owner can not be removed',
+        remedy: 'Add the new owner before removing the old one',
+    },
+    'INVALID_PUBKEY_LENGTH()': {
+        message: 'R1 public keys must be 64 bytes',
+        remedy: 'Encode the key as x || y without the SEC1 prefix',
+    },
+    // Validator manager
+    'EMPTY_VALIDATORS()': {
+        message: 'The last validator can not be removed',
+        remedy: 'Add the new validator before removing the old one',
+    },
+    'VALIDATOR_ERC165_FAIL()': {
+        message: 'The contract does not support the validator interface',
+        remedy: 'Check that the address is a validator of the right type',
+    },
+    // Upgrade manager
+    'SAME_IMPLEMENTATION()': {
+        message: 'The account already runs this implementation',
+    },
+    // Hook manager
+    'EMPTY_HOOK_ADDRESS()': {
+        message: 'The hook address is missing from the hook data',
+    },
+    'HOOK_ERC165_FAIL()': {
+        message: 'The contract does not support the hook interface',
+        remedy: 'Check that the hook is added as the right hook type',
+    },
+    'INVALID_KEY()': {
+        message: 'The hook data key is reserved',
+    },
+    // Module manager
+    'EMPTY_MODULE_ADDRESS()': {
+        message: 'The module address is missing from the module data',
+    },
+    'RECUSIVE_MODULE_CALL()': {
+        message: 'Modules can not call the account through executeFromModule',
+        remedy: 'Call the account function from the module directly',
+    },
+    'MODULE_ERC165_FAIL()': {
+        message: 'The contract does not support the module interface',
+    },
+    // Auth
+    'NOT_FROM_BOOTLOADER()': {
+        message: 'Only the bootloader may call this function',
+    },
+    'NOT_FROM_MODULE()': {
+        message: 'Only a module of the account may call this function',
+        remedy: 'Install the module before using it',
+    },
+    'NOT_FROM_HOOK()': {
+        message: 'Only a hook of the account may call this function',
+    },
+    'NOT_FROM_SELF()': {
+        message: 'Only the account itself may call this function',
+        remedy: 'Send the call as a transaction of the account',
+    },
+    'NOT_FROM_SELF_OR_MODULE()': {
+        message: 'Only the account or one of its modules may call this function',
+        remedy: 'Send the call as a transaction of the account',
+    },
+    // R1 validator
+    'INVALID_SIGNATURE()': {
+        message: 'The signature is not valid for the owner',
+    },
+    // Recovery
+    'INVALID_RECOVERY_CONFIG()': {
+        message: 'The recovery config is not valid',
+        remedy: 'Use a threshold between 1 and the number of guardians',
+    },
+    'INVALID_RECOVERY_NONCE()': {
+        message: 'The recovery was signed for another nonce',
+        remedy: 'Read the nonce from the module and sign again',
+    },
+    'INVALID_GUARDIAN()': {
+        message: 'A signer is not a guardian of the account',
+    },
+    'INVALID_GUARDIAN_SIGNATURE()': {
+        message: 'A guardian signature is not valid',
+        remedy: 'Sign the EIP-712 recovery data of the module',
+    },
+    'ZERO_ADDRESS_GUARDIAN()': {
+        message: 'The guardian can not be the zero address',
+    },
+    'GUARDIANS_MUST_BE_SORTED()': {
+        message: 'Guardian signatures must be sorted by guardian address',
+        remedy: 'Sort the signatures by ascending guardian address',
+    },
+    'RECOVERY_TIMELOCK()': {
+        message: 'The recovery timelock has not passed yet',
+        remedy: 'Wait for the timelock before executing the recovery',
+    },
+    'RECOVERY_NOT_STARTED()': {
+        message: 'No recovery is in progress',
+    },
+    'RECOVERY_NOT_INITED()': {
+        message: 'The recovery module is not set up for the account',
+        remedy: 'Add the module to the account first',
+    },
+    'RECOVERY_IN_PROGRESS()': {
+        message: 'A recovery is in progress',
+        remedy: 'Stop or execute the recovery first',
+    },
+    'INSUFFICIENT_GUARDIANS()': {
+        message: 'Fewer guardians signed than the threshold',
+        remedy: 'Collect more guardian signatures',
+    },
+    'ALREADY_INITED()': {
+        message: 'The module is already set up for the account',
+    },
+    // Factory
+    'DEPLOYMENT_FAILED()': {
+        message: 'The account deployment failed',
+    },
+    'INITIALIZATION_FAILED()': {
+        message: 'The account initializer reverted',
+        remedy: 'Simulate the initializer to find the failing call',
+    },
+    'INVALID_INITIALIZER()': {
+        message: 'The initializer data does not call AGWAccount.initialize',
+        remedy: 'Build the initializer with the current AGWAccount ABI',
+    },
+    'INVALID_SALT()': {
+        message: 'The salt is not derived from the initializer',
+    },
+    // Paymaster
+    'UNSUPPORTED_FLOW()': {
+        message: 'The paymaster does not support this flow',
+        remedy: 'Use the general paymaster flow',
+    },
+    'UNAUTHORIZED_WITHDRAW()': {
+        message: 'Only the owner may withdraw from the paymaster',
+    },
+    'INVALID_TOKEN()': {
+        message: 'The token is not valid for the paymaster',
+    },
+    'SHORT_PAYMASTER_INPUT()': {
+        message: 'The paymaster input is too short',
+    },
+    'UNSUPPORTED_TOKEN()': {
+        message: 'The paymaster does not accept this token',
+    },
+    'LESS_ALLOWANCE_FOR_PAYMASTER()': {
+        message: 'The paymaster allowance does not cover the fee',
+        remedy: 'Approve the paymaster for a larger amount',
+    },
+    'FAILED_FEE_TRANSFER()': {
+        message: 'The paymaster could not pay the fee',
+    },
+    'INVALID_MARKUP()': {
+        message: 'The fee markup is not valid',
+    },
+    'USER_LIMIT_REACHED()': {
+        message: 'The account used all its sponsored transactions',
+        remedy: 'Pay the fee from the account',
+    },
+    'INVALID_USER_LIMIT()': {
+        message: 'The sponsored transaction limit is not valid',
+    },
+    'NOT_AGW_ACCOUNT()': {
+        message: 'The paymaster only sponsors AGW accounts',
+    },
+    'EXCEEDS_MAX_SPONSORED_ETH()': {
+        message: 'The fee exceeds what the paymaster sponsors',
+        remedy: 'Lower the gas limit or pay the fee from the account',
+    },
+    // Registry
+    'NOT_FROM_FACTORY()': {
+        message: 'Only the factory may register accounts',
+    },
+    'NOT_FROM_DEPLOYER()': {
+        message: 'Only the deployer may call this function',
+    },
+    // BatchCaller
+    'ONLY_DELEGATECALL()': {
+        message: 'The batch caller must be delegatecalled',
+    },
+    'CALL_FAILED()': {
+        message: 'A call of the batch failed',
+        remedy: 'See the cause, or set allowFailure on calls that may fail',
+    },
+    'MsgValueMismatch(uint256 actualValue, uint256 expectedValue)': {
+        message: (args) =>
+            `The transaction sent ${args.actualValue} wei, the calls use ${args.expectedValue}`,
+        remedy: 'Send the sum of the call values with the batch',
+    },
+    // Initable
+    'MODULE_NOT_ADDED_CORRECTLY()': {
+        message: 'The module was not initialized by the account',
+        remedy: 'Add the module with addModule',
+    },
+    'MODULE_NOT_REMOVED_CORRECTLY()': {
+        message: 'The module was not disabled by the account',
+        remedy: 'Remove the module with removeModule',
+    },
+    // Session keys
+    'TimestampOutOfRange(uint256 currentTimestamp, uint256 start, uint256 end)':
+        {
+            message: (args) =>
+                `Timestamp ${args.currentTimestamp} is outside ${args.start} to ${args.end}`,
+            remedy: 'The session expired or a period ended, create a new session',
+        },
+    // Email recovery
+    'InvalidSubjectParams()': {
+        message: 'The email subject does not match the template',
+        remedy: 'Render the subject with the subject handler templates',
+    },
+    'InvalidAccount()': {
+        message: 'The email subject names an address that is not an account',
+    },
+    'InvalidRecoveryModule()': {
+        message: 'The email subject names another recovery module',
+    },
+    'MaxNumberOfGuardiansReached()': {
+        message: 'The account has the maximum number of email guardians',
+    },
+    'TooManyValuesToRemove()': {
+        message: 'Too many email guardians to remove at once',
+    },
+    'RecoveryInProcess()': {
+        message: 'An email recovery is in progress',
+        remedy: 'Cancel or complete the recovery first',
+    },
+    'IncorrectNumberOfWeights(uint256 guardianCount, uint256 weightCount)': {
+        message: (args) =>
+            `${args.guardianCount} guardians were given ${args.weightCount} weights`,
+        remedy: 'Give every guardian a weight',
+    },
+    'ThresholdCannotBeZero()': {
+        message: 'The email recovery threshold can not be zero',
+    },
+    'InvalidGuardianAddress(address guardian)': {
+        message: (args) => `${args.guardian} can not be an email guardian`,
+    },
+    'InvalidGuardianWeight()': {
+        message: 'Email guardian weights can not be zero',
+    },
+    'AddressAlreadyGuardian()': {
+        message: 'The address is already an email guardian',
+    },
+    'ThresholdExceedsTotalWeight(uint256 threshold, uint256 totalWeight)': {
+        message: (args) =>
+            `Threshold ${args.threshold} exceeds the total guardian weight ${args.totalWeight}`,
+    },
+    'StatusCannotBeTheSame(uint8 newStatus)': {
+        message: 'The email guardian already has this status',
+    },
+    'SetupNotCalled()': {
+        message: 'Email recovery is not set up for the account',
+    },
+    'AddressNotGuardianForAccount()': {
+        message: 'The address is not an email guardian of the account',
+    },
+    'InvalidVerifier()': {
+        message: 'The email proof verifier address is not valid',
+    },
+    'InvalidDkimRegistry()': {
+        message: 'The DKIM registry address is not valid',
+    },
+    'InvalidEmailAuthImpl()': {
+        message: 'The EmailAuth implementation address is not valid',
+    },
+    'InvalidSubjectHandler()': {
+        message: 'The subject handler address is not valid',
+    },
+    'SetupAlreadyCalled()': {
+        message: 'Email recovery is already set up for the account',
+    },
+    'AccountNotConfigured()': {
+        message: 'Email recovery is not configured for the account',
+        remedy: 'Add the email recovery module to the account first',
+    },
+    'DelayMoreThanExpiry(uint256 delay, uint256 expiry)': {
+        message: (args) =>
+            `The recovery delay ${args.delay} is longer than its expiry ${args.expiry}`,
+    },
+    'RecoveryWindowTooShort(uint256 recoveryWindow)': {
+        message: (args) =>
+            `The recovery window of ${args.recoveryWindow} seconds is too short`,
+    },
+    'ThresholdExceedsAcceptedWeight(uint256 threshold, uint256 acceptedWeight)':
+        {
+            message: (args) =>
+                `Threshold ${args.threshold} exceeds the accepted guardian weight ${args.acceptedWeight}`,
+            remedy: 'Wait for more guardians to accept',
+        },
+    'InvalidGuardianStatus(uint8 guardianStatus, uint8 expectedGuardianStatus)':
+        {
+            message: 'The email guardian is not in the expected status',
+            remedy: 'Guardians must accept before approving a recovery',
+        },
+    'InvalidAccountAddress()': {
+        message: 'The account address is not valid',
+    },
+    'NoRecoveryConfigured()': {
+        message: 'No email recovery is configured for the account',
+    },
+    'NotEnoughApprovals(uint256 currentWeight, uint256 threshold)': {
+        message: (args) =>
+            `Approvals weigh ${args.currentWeight}, ${args.threshold} is required`,
+        remedy: 'Collect more guardian approvals',
+    },
+    'DelayNotPassed(uint256 blockTimestamp, uint256 executeAfter)': {
+        message: (args) =>
+            `The recovery can be completed after ${args.executeAfter}`,
+        remedy: 'Wait for the recovery delay',
+    },
+    'RecoveryRequestExpired(uint256 blockTimestamp, uint256 executeBefore)': {
+        message: (args) => `The recovery expired at ${args.executeBefore}`,
+        remedy: 'Start a new recovery',
+    },
+    'InvalidCalldataHash(bytes32 calldataHash, bytes32 expectedCalldataHash)':
+        {
+            message: 'The recovery data does not match the approved hash',
+            remedy: 'Complete the recovery with the new owner in the email subject',
+        },
+    'NoRecoveryInProcess()': {
+        message: 'No email recovery is in progress',
+    },
+    // OpenZeppelin
+    'InvalidInitialization()': {
+        message: 'The contract is already initialized',
+    },
+    'NotInitializing()': {
+        message: 'The function may only be called while initializing',
+    },
+    'OwnableUnauthorizedAccount(address account)': {
+        message: (args) => `${args.account} is not the owner`,
+    },
+    'OwnableInvalidOwner(address owner)': {
+        message: (args) => `${args.owner} can not be the owner`,
+    },
+    'ECDSAInvalidSignature()': {
+        message: 'The signature does not recover to an address',
+    },
+    'ECDSAInvalidSignatureLength(uint256 length)': {
+        message: (args) =>
+            `The signature is ${args.length} bytes, 65 bytes are expected`,
+    },
+    'ECDSAInvalidSignatureS(bytes32 s)': {
+        message: 'The signature is malleable, its s value is too high',
+        remedy: 'Sign with a library that normalizes s',
+    },
+    'StringTooLong(string str)': {
+        message: 'The EIP-712 name or version is too long',
+    },
+    'InvalidShortString()': {
+        message: 'The EIP-712 name or version is not valid',
+    },
+};
+
+// String reverts of the session and recovery contracts, by reason
+export const REVERT_REASONS: Record<string, ReasonDescription> = {
+    // Session keys
+    'Lifetime limit exceeded': {
+        message: 'The session used up its lifetime limit',
+        remedy: 'Create a session with a higher limit',
+    },
+    'Allowance limit exceeded': {
+        message: 'The session used up its allowance for this period',
+        remedy: 'Wait for the next period',
+    },
+    'EQUAL constraint not met': {
+        message: 'A call parameter breaks an EQUAL constraint of the session',
+    },
+    'GREATER constraint not met': {
+        message: 'A call parameter breaks a GREATER constraint of the session',
+    },
+    'LESS constraint not met': {
+        message: 'A call parameter breaks a LESS constraint of the session',
+    },
+    'GREATER_OR_EQUAL constraint not met': {
+        message:
+            'A call parameter breaks a GREATER_OR_EQUAL constraint of the session',
+    },
+    'LESS_OR_EQUAL constraint not met': {
+        message:
+            'A call parameter breaks a LESS_OR_EQUAL constraint of the session',
+    },
+    'NOT_EQUAL constraint not met': {
+        message: 'A call parameter breaks a NOT_EQUAL constraint of the session',
+    },
+    'Session is not active': {
+        message: 'The session is revoked, expired or was never created',
+        remedy: 'Create a new session',
+    },
+    'Can not target self': {
+        message: 'Sessions can not call the account itself',
+    },
+    'Call to this contract is not allowed': {
+        message: 'The session has no call policy for this contract and selector',
+        remedy: 'Create a session with a call policy for it',
+    },
+    'Transfer to this address is not allowed': {
+        message: 'The session has no transfer policy for this address',
+        remedy: 'Create a session with a transfer policy for it',
+    },
+    'Value exceeds limit': {
+        message: 'The value is above what the session allows per use',
+    },
+    "Can't call this function without calling validationHook": {
+        message: 'The session was not validated for this transaction',
+    },
+    'Account not initialized': {
+        message: 'The session key validator is not installed on the account',
+        remedy: 'Add the session key validator as a module first',
+    },
+    'Invalid signer': {
+        message: 'The session signer can not be the zero address',
+    },
+    'Session already exists': {
+        message: 'A session with the same spec already exists',
+        remedy: 'Change the spec, for example its expiry',
+    },
+    'Unlimited fee allowance is not safe': {
+        message: 'Sessions must limit the fees they pay',
+        remedy: 'Set a lifetime or allowance fee limit',
+    },
+    'Revoke all keys first': {
+        message: 'The session key validator still has open sessions',
+        remedy: 'Revoke the open sessions before removing the validator',
+    },
+    'Nothing to revoke': {
+        message: 'The session is not active',
+    },
+    'Invalid signer (empty)': {
+        message: 'The session signer can not be the zero address',
+    },
+    'Invalid signer (mismatch)': {
+        message: 'The transaction is not signed by the session signer',
+    },
+    // Email recovery
+    'invalid dkim public key hash': {
+        message: 'The DKIM key of the email domain is not registered',
+    },
+    'email nullifier already used': {
+        message: 'The email was already used',
+        remedy: 'Send a new email',
+    },
+    'invalid account salt': {
+        message: 'The email was sent for another account',
+    },
+    'invalid timestamp': {
+        message: 'The email is older than the last one used',
+    },
+    'invalid subject': {
+        message: 'The email subject does not match the template',
+        remedy: 'Reply to the email without editing the subject',
+    },
+    'invalid email proof': {
+        message: 'The email proof is not valid',
+    },
+    'invalid account in email': {
+        message: 'The email does not name an account',
+    },
+    'invalid template id': {
+        message: 'The email was generated for another template',
+    },
+    'guardian is not deployed': {
+        message: 'The email guardian has not accepted yet',
+        remedy: 'Accept the guardian request before approving a recovery',
+    },
+};
+
+// Solidity panic codes
+const PANICS: Record<number, string> = {
+    0x01: 'An assertion failed',
+    0x11: 'An arithmetic operation overflowed',
+    0x12: 'Division by zero',
+    0x21: 'A value is out of its enum range',
+    0x22: 'Storage byte array is corrupted',
+    0x31: 'pop on an empty array',
+    0x32: 'An array index is out of bounds',
+    0x41: 'Out of memory',
+    0x51: 'Call to an uninitialized function',
+};
+
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+const SUITE_INTERFACE = new Interface(
+    Object.keys(SUITE_ERRORS).map((signature) => `error ${signature}`),
+);
+
+// Error names are unique across the suite
+const SUITE_ERRORS_BY_NAME: Record<string, ErrorDescription> =
+    Object.fromEntries(
+        Object.entries(SUITE_ERRORS).map(([signature, description]) => [
+            signature.slice(0, signature.indexOf('(')),
+            description,
+        ]),
+    );
+
+// Account functions that revert with the data of another call
+const ACCOUNT_CALLS_INTERFACE = new Interface([
+    'function batchCall((address target, bool allowFailure, uint256 value, bytes callData)[] calls)',
+    'function executeFromModule(address to, uint256 value, bytes data)',
+]);
+
+/**
+ * Decodes revert data of any suite contract
+ * @dev Unknown selectors still decode, with the selector as the message, and
+ * so does data too short or malformed for its selector
+ */
+export function decodeRevertData(data: BytesLike): DecodedError {
+    const hex = hexlify(data);
+
+    if (hex === '0x') {
+        return {
+            name: 'EmptyRevert',
+            selector: null,
+            args: [],
+            message: 'The call reverted without data',
+            remedy: 'It may have run out of gas or called a contract without code',
+            data: hex,
+        };
+    }
+
+    const selector = dataLength(hex) < 4 ? hex : dataSlice(hex, 0, 4);
+    let decoded: DecodedError | null;
+    try {
+        decoded = decodeKnownError(hex, selector);
+    } catch {
+        decoded = null;
+    }
+
+    return (
+        decoded ?? {
+            name: 'UnknownError',
+            selector,
+            args: [],
+            message: `Unknown error ${selector}`,
+            remedy: null,
+            data: hex,
+        }
+    );
+}
+
+/**
+ * Finds the revert data in an error thrown by ethers or zksync-ethers
+ * @dev Providers nest the RPC error differently, so nested errors are
+ * searched too
+ */
+export function getRevertData(error: unknown, depth = 0): string | null {
+    if (typeof error !== 'object' || error === null || depth > 4) {
+        return null;
+    }
+
+    const { data } = error as { data?: unknown };
+    if (typeof data === 'string' && isHexString(data)) {
+        return data;
+    }
+    for (const key of ['data', 'error', 'info', 'cause']) {
+        const nested = getRevertData(
+            (error as Record<string, unknown>)[key],
+            depth + 1,
+        );
+        if (nested !== null) {
+            return nested;
+        }
+    }
+    return null;
+}
+
+// One line per error, causes indented below the error they caused
+export function formatDecodedError(error: DecodedError): string {
+    const lines = [`${error.name}: ${error.message}`];
+    if (error.remedy !== null) {
+        lines.push(`  Remedy: ${error.remedy}`);
+    }
+
+    if (error.cause !== undefined) {
+        const { origin } = error.cause;
+        lines.push(
+            origin?.index !== undefined
+                ? `  Call ${origin.index} to ${origin.target} reverted with`
+                : '  Caused by',
+        );
+        lines.push(
+            ...formatDecodedError(error.cause)
+                .split('\n')
+                .map((line) => `    ${line}`),
+        );
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Decodes the reverts of account calls, following calls they made
+ * @dev batchCall drops the revert data of the failing call, so its calls are
+ * simulated one by one from the account. Simulations do not see the changes
+ * of earlier calls, a call that only fails after them is not found
+ */
+export class RevertDecoder {
+    private provider: Provider;
+
+    constructor(provider: Provider) {
+        this.provider = provider;
+    }
+
+    public decode(error: unknown): DecodedError | null {
+        const data = getRevertData(error);
+        return data === null ? null : decodeRevertData(data);
+    }
+
+    public async decodeCall(
+        call: RevertedCall,
+        error: unknown,
+    ): Promise<DecodedError | null> {
+        const decoded = this.decode(error);
+        return decoded === null ? null : await this.follow(call, decoded);
+    }
+
+    private async follow(
+        call: RevertedCall,
+        decoded: DecodedError,
+    ): Promise<DecodedError> {
+        const parsed = ACCOUNT_CALLS_INTERFACE.parseTransaction({
+            data: call.data,
+        });
+
+        // executeFromModule bubbles the revert data of its call unchanged, it
+        // came from the call if the call alone reverts with the same data
+        if (parsed?.name === 'executeFromModule') {
+            const inner = await this.simulate({
+                from: call.to,
+                to: parsed.args.to,
+                data: parsed.args.data,
+                value: parsed.args.value,
+            });
+            if (inner?.data !== decoded.data) {
+                return decoded;
+            }
+            return {
+                ...decoded,
+                origin: {
+                    through: 'executeFromModule',
+                    target: parsed.args.to,
+                },
+            };
+        }
+        if (parsed?.name !== 'batchCall' || decoded.name !== 'CALL_FAILED') {
+            return decoded;
+        }
+
+        const calls = parsed.args.calls;
+        for (let index = 0; index < calls.length; index++) {
+            const { target, allowFailure, value, callData } = calls[index];
+            if (allowFailure) {
+                continue;
+            }
+
+            // The account is the sender of the calls of its batch
+            const innerCall = {
+                from: call.to,
+                to: target,
+                data: callData,
+                value,
+            };
+            const inner = await this.simulate(innerCall);
+            if (inner !== null) {
+                const cause = await this.follow(innerCall, inner);
+                return {
+                    ...decoded,
+                    cause: {
+                        ...cause,
+                        origin: { through: 'batchCall', target, index },
+                    },
+                };
+            }
+        }
+        return decoded;
+    }
+
+    // Revert of the call, null if it succeeds
+    private async simulate(call: RevertedCall): Promise<DecodedError | null> {
+        try {
+            await this.provider.call(call);
+            return null;
+        } catch (err) {
+            const decoded = this.decode(err);
+            if (decoded === null) {
+                throw err;
+            }
+            return decoded;
+        }
+    }
+}
+
+// Throws if the data does not match the error of its selector
+function decodeKnownError(
+    hex: string,
+    selector: string,
+): DecodedError | null {
+    if (selector === ERROR_SELECTOR) {
+        const [reason] = AbiCoder.defaultAbiCoder().decode(
+            ['string'],
+            dataSlice(hex, 4),
+        );
+        const description = REVERT_REASONS[reason];
+        return {
+            name: 'Error',
+            selector,
+            args: [reason],
+            message: description?.message ?? reason,
+            remedy: description?.remedy ?? null,
+            data: hex,
+        };
+    }
+    if (selector === PANIC_SELECTOR) {
+        const [code] = AbiCoder.defaultAbiCoder().decode(
+            ['uint256'],
+            dataSlice(hex, 4),
+        );
+        return {
+            name: 'Panic',
+            selector,
+            args: [code],
+            message: PANICS[Number(code)] ?? `Panic ${code}`,
+            remedy: null,
+            data: hex,
+        };
+    }
+
+    const parsed = SUITE_INTERFACE.parseError(hex);
+    if (parsed === null) {
+        return null;
+    }
+
+    const description = SUITE_ERRORS_BY_NAME[parsed.name];
+    return {
+        name: parsed.name,
+        selector,
+        args: parsed.args.toArray(),
+        message:
+            typeof description.message === 'string'
+                ? description.message
+                : description.message(parsed.args),
+        remedy: description.remedy ?? null,
+        data: hex,
+    };
+}
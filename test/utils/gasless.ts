@@ -0,0 +1,312 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BigNumberish, BytesLike } from 'ethers';
+import { Interface, ZeroAddress } from 'ethers';
+import type { Provider, types } from 'zksync-ethers';
+import { Contract } from 'zksync-ethers';
+
+import type { ERC20FeeQuote } from './paymasters';
+import {
+    getERC20PaymasterInput,
+    getGaslessPaymasterInput,
+    quoteERC20PaymasterFee,
+} from './paymasters';
+import type { AGWTransactionBuilder, FeeOverrides } from './transactions';
+
+const AGW_REGISTRY_INTERFACE = new Interface([
+    'function isAGW(address account) view returns (bool)',
+]);
+
+const ERC20_BALANCE_INTERFACE = new Interface([
+    'function balanceOf(address account) view returns (uint256)',
+]);
+
+// Errors of GaslessPaymaster.validateAndPayForPaymasterTransaction, or a
+// failed estimation of the transaction with the paymaster
+export type GaslessRejection =
+    | 'NOT_AGW_ACCOUNT'
+    // The paymaster calls an unset registry and reverts without a reason
+    | 'REGISTRY_NOT_SET'
+    | 'USER_LIMIT_REACHED'
+    | 'EXCEEDS_MAX_SPONSORED_ETH'
+    | 'FAILED_FEE_TRANSFER'
+    | 'ESTIMATION_FAILED';
+
+export type GaslessEligibility = {
+    eligible: boolean;
+    // Every check that fails, the paymaster reverts with the first one
+    rejections: Array<GaslessRejection>;
+    limitless: boolean;
+    // In agwRegistry or agwRegistry2
+    registered: boolean;
+    // Null for limitless addresses, which have no limit
+    remainingUserLimit: bigint | null;
+    // Null if no fee was given, fee checks are skipped then
+    requiredETH: bigint | null;
+    maxSponsoredEth: bigint;
+    paymasterBalance: bigint;
+};
+
+type GaslessFee = { gasLimit: BigNumberish; maxFeePerGas: BigNumberish };
+
+/**
+ * Runs the checks of the gasless paymaster against its current state
+ * @param fee - Fee of the transaction with the paymaster, gasLimit times
+ * maxFeePerGas is what the paymaster pays
+ */
+export async function checkGaslessEligibility(
+    provider: Provider,
+    paymasterContract: Contract,
+    accountAddress: string,
+    fee?: GaslessFee,
+): Promise<GaslessEligibility> {
+    const [limitless, registries, maxSponsoredEth, paymasterBalance] =
+        await Promise.all([
+            paymasterContract.limitlessAddresses(accountAddress),
+            Promise.all([
+                paymasterContract.agwRegistry(),
+                paymasterContract.agwRegistry2(),
+            ]),
+            paymasterContract.maxSponsoredEth(),
+            provider.getBalance(await paymasterContract.getAddress()),
+        ]);
+
+    const rejections: Array<GaslessRejection> = [];
+
+    // The paymaster only reads the registries and limit of other accounts
+    let registered = false;
+    let remainingUserLimit: bigint | null = null;
+    if (!limitless) {
+        const registration = await isRegistered(
+            provider,
+            registries,
+            accountAddress,
+        );
+        registered = registration === true;
+        remainingUserLimit =
+            await paymasterContract.getRemainingUserLimit(accountAddress);
+
+        if (registration === null) {
+            rejections.push('REGISTRY_NOT_SET');
+        } else if (!registered) {
+            rejections.push('NOT_AGW_ACCOUNT');
+        } else if (remainingUserLimit === 0n) {
+            rejections.push('USER_LIMIT_REACHED');
+        }
+    }
+
+    let requiredETH: bigint | null = null;
+    if (fee) {
+        requiredETH = BigInt(fee.gasLimit) * BigInt(fee.maxFeePerGas);
+        if (requiredETH > maxSponsoredEth) {
+            rejections.push('EXCEEDS_MAX_SPONSORED_ETH');
+        } else if (requiredETH > paymasterBalance) {
+            rejections.push('FAILED_FEE_TRANSFER');
+        }
+    }
+
+    return {
+        eligible: rejections.length === 0,
+        rejections,
+        limitless,
+        registered,
+        remainingUserLimit,
+        requiredETH,
+        maxSponsoredEth,
+        paymasterBalance,
+    };
+}
+
+// agwRegistry2 is only asked for accounts agwRegistry does not know, null if
+// the paymaster reaches an unset registry
+async function isRegistered(
+    provider: Provider,
+    registries: Array<string>,
+    accountAddress: string,
+): Promise<boolean | null> {
+    for (const registry of registries) {
+        if (registry === ZeroAddress) {
+            return null;
+        }
+
+        const registryContract = new Contract(
+            registry,
+            AGW_REGISTRY_INTERFACE,
+            provider,
+        );
+        if (await registryContract.isAGW(accountAddress)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+export type ERC20FeeOption = {
+    paymaster: Contract;
+    token: string;
+    oraclePayload: BytesLike;
+};
+
+export type FeePaymentPlan = {
+    method: 'gasless' | 'erc20' | 'self';
+    // Undefined for self-pay
+    paymasterParams?: types.PaymasterParams;
+    // Fees the plan was checked with, populate the transaction with them
+    overrides: FeeOverrides;
+    // Why the gasless paymaster was not used, if it was not
+    eligibility: GaslessEligibility;
+    // Set for the ERC-20 paymaster
+    quote?: ERC20FeeQuote;
+};
+
+/**
+ * Picks how the transaction pays its fee: the gasless paymaster if it accepts
+ * the transaction, else the ERC-20 paymaster if the account has the token to
+ * pay with, else the account itself
+ * @dev Fees are estimated with the paymaster of each option, which changes
+ * the gas limit the paymasters are checked against
+ */
+export async function planFeePayment(
+    provider: Provider,
+    builder: AGWTransactionBuilder,
+    account: Contract,
+    tx: types.TransactionLike,
+    hookData: Array<BytesLike>,
+    gaslessPaymaster: Contract,
+    erc20Option?: ERC20FeeOption,
+): Promise<FeePaymentPlan> {
+    const accountAddress = await account.getAddress();
+
+    let eligibility = await checkGaslessEligibility(
+        provider,
+        gaslessPaymaster,
+        accountAddress,
+    );
+    if (eligibility.eligible) {
+        const paymasterParams = getGaslessPaymasterInput(
+            await gaslessPaymaster.getAddress(),
+        );
+
+        let fee: types.Fee | null = null;
+        try {
+            fee = await builder.estimateFee(
+                account,
+                tx,
+                hookData,
+                paymasterParams,
+            );
+        } catch {
+            eligibility = {
+                ...eligibility,
+                eligible: false,
+                rejections: ['ESTIMATION_FAILED'],
+            };
+        }
+
+        if (fee) {
+            eligibility = await checkGaslessEligibility(
+                provider,
+                gaslessPaymaster,
+                accountAddress,
+                fee,
+            );
+        }
+        if (fee && eligibility.eligible) {
+            return {
+                method: 'gasless',
+                paymasterParams,
+                overrides: toOverrides(fee),
+                eligibility,
+            };
+        }
+    }
+
+    if (erc20Option) {
+        const plan = await planERC20Payment(
+            provider,
+            builder,
+            account,
+            tx,
+            hookData,
+            erc20Option,
+        );
+        if (plan) {
+            return { ...plan, eligibility };
+        }
+    }
+
+    const fee = await builder.estimateFee(account, tx, hookData);
+    return {
+        method: 'self',
+        overrides: toOverrides(fee),
+        eligibility,
+    };
+}
+
+// Null if the account can not pay the quote with its token balance
+async function planERC20Payment(
+    provider: Provider,
+    builder: AGWTransactionBuilder,
+    account: Contract,
+    tx: types.TransactionLike,
+    hookData: Array<BytesLike>,
+    option: ERC20FeeOption,
+): Promise<Omit<FeePaymentPlan, 'eligibility'> | null> {
+    const [paymasterAddress, accountAddress] = await Promise.all([
+        option.paymaster.getAddress(),
+        account.getAddress(),
+    ]);
+    const token = new Contract(option.token, ERC20_BALANCE_INTERFACE, provider);
+    const balance: bigint = await token.balanceOf(accountAddress);
+
+    // The allowance does not change the gas, the balance is an upper bound
+    let fee: types.Fee;
+    try {
+        fee = await builder.estimateFee(
+            account,
+            tx,
+            hookData,
+            getERC20PaymasterInput(
+                paymasterAddress,
+                option.token,
+                balance,
+                option.oraclePayload,
+            ),
+        );
+    } catch {
+        return null;
+    }
+    const quote = await quoteERC20PaymasterFee(
+        option.paymaster,
+        option.token,
+        fee,
+        option.oraclePayload,
+    );
+    if (quote.minimalAllowance > balance) {
+        return null;
+    }
+
+    return {
+        method: 'erc20',
+        paymasterParams: getERC20PaymasterInput(
+            paymasterAddress,
+            option.token,
+            quote.minimalAllowance,
+            option.oraclePayload,
+        ),
+        overrides: toOverrides(fee),
+        quote,
+    };
+}
+
+function toOverrides(fee: types.Fee): FeeOverrides {
+    return {
+        gasLimit: fee.gasLimit,
+        maxFeePerGas: fee.maxFeePerGas,
+        maxPriorityFeePerGas: fee.maxPriorityFeePerGas,
+        gasPerPubdata: fee.gasPerPubdataLimit,
+    };
+}
@@ -0,0 +1,312 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { Interface, getAddress, keccak256 } from 'ethers';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
+import type { Provider } from 'zksync-ethers';
+import { Contract } from 'zksync-ethers';
+
+import { CONTRACT_NAMES, VALIDATORS } from './names';
+
+const MODULE_STATE_INTERFACE = new Interface([
+    'function isInited(address account) view returns (bool)',
+    'function isRecovering(address account) view returns (bool)',
+]);
+
+// Contracts the inspector labels by default
+export const KNOWN_CONTRACTS = [
+    CONTRACT_NAMES.IMPLEMENTATION,
+    VALIDATORS.EOA,
+    VALIDATORS.PASSKEY,
+    VALIDATORS.SESSION,
+    VALIDATORS.TEE,
+    'SocialRecoveryModule',
+    'CloudRecoveryModule',
+    'EmailRecoveryModule',
+];
+
+/**
+ * Labels of known contracts, by address or by the hash of their bytecode
+ * @dev Immutables are not part of the bytecode on zkSync, so every
+ * deployment of a contract has the same code hash
+ */
+export type ContractLabels = {
+    addresses?: Record<string, string>;
+    codeHashes?: Record<string, string>;
+};
+
+export type LabeledAddress = {
+    address: string;
+    // Null for unknown contracts
+    label: string | null;
+};
+
+export type ModuleSnapshot = LabeledAddress & {
+    // Null if the module does not implement the view
+    inited: boolean | null;
+    recovering: boolean | null;
+};
+
+export type AccountSnapshot = {
+    account: string;
+    blockNumber: number;
+    implementation: LabeledAddress;
+    k1Owners: Array<string>;
+    r1Owners: Array<string>;
+    k1Validators: Array<LabeledAddress>;
+    r1Validators: Array<LabeledAddress>;
+    moduleValidators: Array<LabeledAddress>;
+    validationHooks: Array<LabeledAddress>;
+    executionHooks: Array<LabeledAddress>;
+    modules: Array<ModuleSnapshot>;
+};
+
+type SnapshotListField =
+    | 'k1Owners'
+    | 'r1Owners'
+    | 'k1Validators'
+    | 'r1Validators'
+    | 'moduleValidators'
+    | 'validationHooks'
+    | 'executionHooks'
+    | 'modules';
+
+export type SnapshotChange =
+    | {
+          kind: 'added' | 'removed';
+          field: SnapshotListField;
+          value: string;
+          label: string | null;
+      }
+    | {
+          kind: 'implementation';
+          before: LabeledAddress;
+          after: LabeledAddress;
+      }
+    | {
+          kind: 'moduleState';
+          module: LabeledAddress;
+          field: 'inited' | 'recovering';
+          before: boolean | null;
+          after: boolean | null;
+      };
+
+// Code hash labels of compiled contracts, for ContractLabels.codeHashes
+export async function getCodeHashLabels(
+    hre: HardhatRuntimeEnvironment,
+    names: Array<string> = KNOWN_CONTRACTS,
+): Promise<Record<string, string>> {
+    const labels: Record<string, string> = {};
+    for (const name of names) {
+        const artifact = await hre.artifacts.readArtifact(name);
+        labels[keccak256(artifact.deployedBytecode)] = name;
+    }
+    return labels;
+}
+
+/**
+ * Reads the whole configuration of an AGW account in one snapshot
+ * @dev All reads are made at the same block, so the snapshot is consistent
+ * even while the account is changing
+ */
+export class AccountInspector {
+    private provider: Provider;
+    private labels: ContractLabels;
+    private codeLabels: Map<string, string | null> = new Map();
+
+    constructor(provider: Provider, labels: ContractLabels = {}) {
+        this.provider = provider;
+        this.labels = labels;
+    }
+
+    public async snapshot(account: Contract): Promise<AccountSnapshot> {
+        const accountAddress = await account.getAddress();
+        const blockNumber = await this.provider.getBlockNumber();
+        const overrides = { blockTag: blockNumber };
+
+        const [
+            implementation,
+            k1Owners,
+            r1Owners,
+            k1Validators,
+            r1Validators,
+            moduleValidators,
+            validationHooks,
+            executionHooks,
+            modules,
+        ] = await Promise.all([
+            account.implementationAddress(overrides),
+            account.k1ListOwners(overrides),
+            account.r1ListOwners(overrides),
+            account.k1ListValidators(overrides),
+            account.r1ListValidators(overrides),
+            account.listModuleValidators(overrides),
+            account.listHooks(true, overrides),
+            account.listHooks(false, overrides),
+            account.listModules(overrides),
+        ]);
+
+        const labelAll = (addresses: Array<string>) =>
+            Promise.all(addresses.map((address) => this.label(address)));
+
+        return {
+            account: accountAddress,
+            blockNumber,
+            implementation: await this.label(implementation),
+            k1Owners: [...k1Owners],
+            r1Owners: [...r1Owners],
+            k1Validators: await labelAll(k1Validators),
+            r1Validators: await labelAll(r1Validators),
+            moduleValidators: await labelAll(moduleValidators),
+            validationHooks: await labelAll(validationHooks),
+            executionHooks: await labelAll(executionHooks),
+            modules: await Promise.all(
+                modules.map((module: string) =>
+                    this.moduleSnapshot(module, accountAddress, blockNumber),
+                ),
+            ),
+        };
+    }
+
+    // Address labels first, then code hash labels
+    public async label(address: string): Promise<LabeledAddress> {
+        const checksummed = getAddress(address);
+
+        const byAddress = Object.entries(this.labels.addresses ?? {}).find(
+            ([known]) => getAddress(known) === checksummed,
+        );
+        if (byAddress) {
+            return { address: checksummed, label: byAddress[1] };
+        }
+
+        let label = this.codeLabels.get(checksummed);
+        if (label === undefined) {
+            const code = await this.provider.getCode(checksummed);
+            label =
+                code === '0x'
+                    ? null
+                    : this.labels.codeHashes?.[keccak256(code)] ?? null;
+            this.codeLabels.set(checksummed, label);
+        }
+        return { address: checksummed, label };
+    }
+
+    private async moduleSnapshot(
+        module: string,
+        accountAddress: string,
+        blockNumber: number,
+    ): Promise<ModuleSnapshot> {
+        const moduleContract = new Contract(
+            module,
+            MODULE_STATE_INTERFACE,
+            this.provider,
+        );
+        const read = async (method: string): Promise<boolean | null> => {
+            try {
+                return await moduleContract[method](accountAddress, {
+                    blockTag: blockNumber,
+                });
+            } catch {
+                return null;
+            }
+        };
+
+        const [labeled, inited, recovering] = await Promise.all([
+            this.label(module),
+            read('isInited'),
+            read('isRecovering'),
+        ]);
+        return { ...labeled, inited, recovering };
+    }
+}
+
+/**
+ * Lists what changed between two snapshots of the same account
+ * @dev List order is ignored, the account stores its lists as linked lists
+ */
+export function diffSnapshots(
+    before: AccountSnapshot,
+    after: AccountSnapshot,
+): Array<SnapshotChange> {
+    if (before.account !== after.account) {
+        throw new Error('Snapshots are of different accounts');
+    }
+
+    const changes: Array<SnapshotChange> = [];
+    if (before.implementation.address !== after.implementation.address) {
+        changes.push({
+            kind: 'implementation',
+            before: before.implementation,
+            after: after.implementation,
+        });
+    }
+
+    const diffList = (
+        field: SnapshotListField,
+        beforeList: Array<LabeledAddress>,
+        afterList: Array<LabeledAddress>,
+    ): void => {
+        const beforeValues = new Set(beforeList.map((entry) => entry.address));
+        const afterValues = new Set(afterList.map((entry) => entry.address));
+
+        for (const entry of beforeList) {
+            if (!afterValues.has(entry.address)) {
+                changes.push({
+                    kind: 'removed',
+                    field,
+                    value: entry.address,
+                    label: entry.label,
+                });
+            }
+        }
+        for (const entry of afterList) {
+            if (!beforeValues.has(entry.address)) {
+                changes.push({
+                    kind: 'added',
+                    field,
+                    value: entry.address,
+                    label: entry.label,
+                });
+            }
+        }
+    };
+    const unlabeled = (values: Array<string>): Array<LabeledAddress> =>
+        values.map((address) => ({ address, label: null }));
+
+    diffList('k1Owners', unlabeled(before.k1Owners), unlabeled(after.k1Owners));
+    diffList('r1Owners', unlabeled(before.r1Owners), unlabeled(after.r1Owners));
+    diffList('k1Validators', before.k1Validators, after.k1Validators);
+    diffList('r1Validators', before.r1Validators, after.r1Validators);
+    diffList(
+        'moduleValidators',
+        before.moduleValidators,
+        after.moduleValidators,
+    );
+    diffList('validationHooks', before.validationHooks, after.validationHooks);
+    diffList('executionHooks', before.executionHooks, after.executionHooks);
+    diffList('modules', before.modules, after.modules);
+
+    for (const module of after.modules) {
+        const previous = before.modules.find(
+            (entry) => entry.address === module.address,
+        );
+        if (!previous) {
+            continue;
+        }
+        for (const field of ['inited', 'recovering'] as const) {
+            if (previous[field] !== module[field]) {
+                changes.push({
+                    kind: 'moduleState',
+                    module: { address: module.address, label: module.label },
+                    field,
+                    before: previous[field],
+                    after: module[field],
+                });
+            }
+        }
+    }
+
+    return changes;
+}
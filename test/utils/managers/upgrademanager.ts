@@ -4,9 +4,12 @@
  * Proprietary and confidential
  */
 import type { ec } from 'elliptic';
+import type { HardhatRuntimeEnvironment } from 'hardhat/types';
 import type { Contract, Provider } from 'zksync-ethers';
 import { utils } from 'zksync-ethers';
 
+import type { UpgradeCheckOptions } from '../../../deploy/upgrade';
+import { populateUpgrade } from '../../../deploy/upgrade';
 import { prepareEOATx, prepareTeeTx } from '../transactions';
 import { HDNodeWallet } from 'ethers';
 
@@ -32,3 +35,35 @@ export async function upgradeTx(
     );
     await txReceipt.wait();
 }
+
+// Sends the upgradeTo call the upgrade-account task builds, so it only
+// upgrades if the storage layout and interfaces stay compatible
+export async function checkedUpgradeTx(
+    hre: HardhatRuntimeEnvironment,
+    provider: Provider,
+    account: Contract,
+    validator: Contract,
+    newImplementation: Contract,
+    wallet: HDNodeWallet,
+    options: UpgradeCheckOptions,
+): Promise<void> {
+    const upgradeCall = await populateUpgrade(
+        hre,
+        provider,
+        account,
+        await newImplementation.getAddress(),
+        options,
+    );
+
+    const tx = await prepareEOATx(
+        provider,
+        account,
+        upgradeCall,
+        await validator.getAddress(),
+        wallet,
+    );
+    const txReceipt = await provider.broadcastTransaction(
+        utils.serializeEip712(tx),
+    );
+    await txReceipt.wait();
+}
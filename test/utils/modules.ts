@@ -0,0 +1,305 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BigNumberish } from 'ethers';
+import { AbiCoder, Interface, concat, getAddress } from 'ethers';
+import type { Provider, types } from 'zksync-ethers';
+import { Contract, utils } from 'zksync-ethers';
+
+import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCaller';
+import { VALIDATORS } from './names';
+import type { SocialRecoveryConfig } from './recovery/client';
+import type { SessionSpec } from './session/session';
+import {
+    SESSION_SPEC_TYPE,
+    SessionStatus,
+    encodeSession,
+} from './session/session';
+import type { AGWTransactionBuilder } from './transactions';
+
+const SESSION_VALIDATOR_INTERFACE = new Interface([
+    `event SessionCreated(address indexed account, bytes32 indexed sessionHash, ${SESSION_SPEC_TYPE} sessionSpec)`,
+    'function sessionStatus(address account, bytes32 sessionHash) view returns (uint8)',
+    'function revokeKeys(bytes32[] sessionHashes)',
+]);
+
+// SocialRecoveryModule.RecoveryConfig
+const RECOVERY_CONFIG_TYPE =
+    'tuple(uint128 timelock, uint128 threshold, address[] guardians)';
+
+// EmailRecoveryModule.init arguments
+export type EmailRecoveryConfig = {
+    guardians: Array<string>;
+    weights: Array<BigNumberish>;
+    threshold: BigNumberish;
+    // Seconds before an approved recovery can be completed
+    delay: BigNumberish;
+    // Seconds after which a recovery request expires
+    expiry: BigNumberish;
+};
+
+export type UninstallOptions = {
+    // Revokes the open sessions in the same transaction, else uninstalling
+    // a session key validator with open sessions is refused
+    revokeOpenSessions?: boolean;
+};
+
+/**
+ * A module the account can add with addModule
+ * @dev uninstallCalls returns the calls that must run before removeModule,
+ * and throws if the module can not be removed
+ */
+export type ModuleEntry<TConfig> = {
+    contractName: string;
+    encodeInitData: (config: TConfig) => string;
+    uninstallCalls?: (
+        provider: Provider,
+        moduleAddress: string,
+        accountAddress: string,
+        options: UninstallOptions,
+    ) => Promise<Array<CallStruct>>;
+};
+
+export type ModuleCatalog = {
+    socialRecovery: ModuleEntry<SocialRecoveryConfig>;
+    // Address of the guardian
+    cloudRecovery: ModuleEntry<string>;
+    emailRecovery: ModuleEntry<EmailRecoveryConfig>;
+    // Session created on install, null for none
+    sessionKeyValidator: ModuleEntry<SessionSpec | null>;
+};
+
+export type ModuleName = keyof ModuleCatalog;
+
+export type ModuleConfig<N extends ModuleName> = Parameters<
+    ModuleCatalog[N]['encodeInitData']
+>[0];
+
+export function encodeSocialRecoveryInitData(
+    config: SocialRecoveryConfig,
+): string {
+    return AbiCoder.defaultAbiCoder().encode(
+        [RECOVERY_CONFIG_TYPE],
+        [
+            {
+                timelock: config.timelock,
+                threshold: config.threshold,
+                guardians: config.guardians,
+            },
+        ],
+    );
+}
+
+export function encodeCloudRecoveryInitData(guardian: string): string {
+    return AbiCoder.defaultAbiCoder().encode(['address'], [guardian]);
+}
+
+export function encodeEmailRecoveryInitData(
+    config: EmailRecoveryConfig,
+): string {
+    if (config.guardians.length !== config.weights.length) {
+        throw new Error('Every guardian needs a weight');
+    }
+
+    return AbiCoder.defaultAbiCoder().encode(
+        ['address[]', 'uint256[]', 'uint256', 'uint256', 'uint256'],
+        [
+            config.guardians,
+            config.weights,
+            config.threshold,
+            config.delay,
+            config.expiry,
+        ],
+    );
+}
+
+/**
+ * Sessions of the account that are still active, expired ones included
+ * @dev sessionCounter is private, so sessions are found from the events
+ */
+export async function getOpenSessions(
+    provider: Provider,
+    sessionValidator: string,
+    accountAddress: string,
+): Promise<Array<string>> {
+    const validator = new Contract(
+        sessionValidator,
+        SESSION_VALIDATOR_INTERFACE,
+        provider,
+    );
+    const created = await validator.queryFilter(
+        validator.filters.SessionCreated(accountAddress),
+    );
+
+    const sessionHashes = [
+        ...new Set(created.map((event) => event.topics[2])),
+    ];
+    const statuses = await Promise.all(
+        sessionHashes.map((sessionHash) =>
+            validator.sessionStatus(accountAddress, sessionHash),
+        ),
+    );
+    return sessionHashes.filter(
+        (_, i) => Number(statuses[i]) === SessionStatus.Active,
+    );
+}
+
+// SessionKeyValidator.disable reverts with "Revoke all keys first"
+async function sessionKeyValidatorUninstallCalls(
+    provider: Provider,
+    moduleAddress: string,
+    accountAddress: string,
+    options: UninstallOptions,
+): Promise<Array<CallStruct>> {
+    const openSessions = await getOpenSessions(
+        provider,
+        moduleAddress,
+        accountAddress,
+    );
+    if (openSessions.length === 0) {
+        return [];
+    }
+    if (!options.revokeOpenSessions) {
+        throw new Error(
+            `Revoke all keys first, ${openSessions.length} sessions are open`,
+        );
+    }
+
+    return [
+        {
+            target: getAddress(moduleAddress),
+            allowFailure: false,
+            value: 0n,
+            callData: SESSION_VALIDATOR_INTERFACE.encodeFunctionData(
+                'revokeKeys',
+                [openSessions],
+            ),
+        },
+    ];
+}
+
+export const MODULE_CATALOG: ModuleCatalog = {
+    socialRecovery: {
+        contractName: 'SocialRecoveryModule',
+        encodeInitData: encodeSocialRecoveryInitData,
+    },
+    cloudRecovery: {
+        contractName: 'CloudRecoveryModule',
+        encodeInitData: encodeCloudRecoveryInitData,
+    },
+    emailRecovery: {
+        contractName: 'EmailRecoveryModule',
+        encodeInitData: encodeEmailRecoveryInitData,
+    },
+    sessionKeyValidator: {
+        contractName: VALIDATORS.SESSION,
+        encodeInitData: (session) => (session ? encodeSession(session) : '0x'),
+        uninstallCalls: sessionKeyValidatorUninstallCalls,
+    },
+};
+
+/**
+ * Adds and removes the modules of the catalog
+ * @dev removeModule ignores a failing disable, so preconditions of the
+ * module are checked here, otherwise the module would be left half removed
+ */
+export class ModuleInstaller {
+    private provider: Provider;
+    private builder: AGWTransactionBuilder;
+
+    constructor(provider: Provider, builder: AGWTransactionBuilder) {
+        this.provider = provider;
+        this.builder = builder;
+    }
+
+    public async populateInstall<N extends ModuleName>(
+        account: Contract,
+        name: N,
+        moduleAddress: string,
+        config: ModuleConfig<N>,
+    ): Promise<types.TransactionLike> {
+        if (await account.isModule(moduleAddress)) {
+            throw new Error(`${name} is already installed`);
+        }
+
+        const entry = MODULE_CATALOG[name] as ModuleEntry<ModuleConfig<N>>;
+        const moduleAndData = concat([
+            moduleAddress,
+            entry.encodeInitData(config),
+        ]);
+        return await this.builder.populate(
+            account,
+            await account.addModule.populateTransaction(moduleAndData),
+        );
+    }
+
+    public async install<N extends ModuleName>(
+        account: Contract,
+        name: N,
+        moduleAddress: string,
+        config: ModuleConfig<N>,
+    ): Promise<types.TransactionResponse> {
+        return await this.broadcast(
+            await this.populateInstall(account, name, moduleAddress, config),
+        );
+    }
+
+    // removeModule, after the module's preconditions in the same batch
+    public async populateUninstall(
+        account: Contract,
+        name: ModuleName,
+        moduleAddress: string,
+        options: UninstallOptions = {},
+    ): Promise<types.TransactionLike> {
+        if (!(await account.isModule(moduleAddress))) {
+            throw new Error(`${name} is not installed`);
+        }
+
+        const { uninstallCalls } = MODULE_CATALOG[name];
+        const calls = uninstallCalls
+            ? await uninstallCalls(
+                  this.provider,
+                  moduleAddress,
+                  await account.getAddress(),
+                  options,
+              )
+            : [];
+        const removeTx = await account.removeModule.populateTransaction(
+            moduleAddress,
+        );
+
+        if (calls.length === 0) {
+            return await this.builder.populate(account, removeTx);
+        }
+        return await this.builder.populateBatch(account, [
+            ...calls,
+            {
+                target: await account.getAddress(),
+                allowFailure: false,
+                value: 0n,
+                callData: removeTx.data,
+            },
+        ]);
+    }
+
+    public async uninstall(
+        account: Contract,
+        name: ModuleName,
+        moduleAddress: string,
+        options: UninstallOptions = {},
+    ): Promise<types.TransactionResponse> {
+        return await this.broadcast(
+            await this.populateUninstall(account, name, moduleAddress, options),
+        );
+    }
+
+    private async broadcast(
+        tx: types.TransactionLike,
+    ): Promise<types.TransactionResponse> {
+        return await this.provider.broadcastTransaction(
+            utils.serializeEip712(tx),
+        );
+    }
+}
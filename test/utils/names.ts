@@ -17,6 +17,7 @@ export enum VALIDATORS {
     TEE = 'TEEValidator',
     EOA = 'EOAValidator',
     PASSKEY = 'PasskeyValidator',
+    SESSION = 'SessionKeyValidator',
 }
 
 export enum HOOKS {
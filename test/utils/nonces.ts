@@ -0,0 +1,280 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import { getAddress } from 'ethers';
+import type { Contract, Provider, types } from 'zksync-ethers';
+import { utils } from 'zksync-ethers';
+
+import { decodeTransactionSignature } from './signatures';
+import type { AGWTransactionBuilder } from './transactions';
+
+// Transaction submitted with a nonce of the manager
+export type TrackedTransaction = {
+    nonce: number;
+    hash: string;
+    tx: types.TransactionLike;
+};
+
+export type ReconcileResult = {
+    // Transactions whose nonces the chain used since the last reconcile
+    confirmed: Array<TrackedTransaction>;
+    // Transactions the node no longer knows, their nonces are reserved again
+    dropped: Array<TrackedTransaction>;
+    nextNonce: number;
+};
+
+type AccountNonces = {
+    // Nonce of the account on chain, as of the last reconcile
+    onChain: number;
+    // Lowest nonce that was never reserved
+    next: number;
+    // Nonces given back or dropped, reserved before new ones, ascending
+    released: Array<number>;
+    submitted: Map<number, TrackedTransaction>;
+};
+
+/**
+ * Reserves sequential nonces of AGW accounts for transactions built in parallel
+ * @dev Accounts use sequential nonces, so a nonce that is reserved and never
+ * submitted blocks every later one until it is released or reused
+ */
+export class NonceManager {
+    private provider: Provider;
+    private accounts: Map<string, AccountNonces> = new Map();
+    private locks: Map<string, Promise<unknown>> = new Map();
+
+    constructor(provider: Provider) {
+        this.provider = provider;
+    }
+
+    // Released nonces first, so gaps are filled before new nonces are used
+    public async reserve(account: string): Promise<number> {
+        return await this.withLock(account, async (nonces) => {
+            return nonces.released.shift() ?? nonces.next++;
+        });
+    }
+
+    // Gives back a reserved nonce whose transaction was not submitted
+    public async release(account: string, nonce: number): Promise<void> {
+        await this.withLock(account, async (nonces) => {
+            if (
+                nonce < nonces.onChain ||
+                nonce >= nonces.next ||
+                nonces.released.includes(nonce)
+            ) {
+                throw new Error(`Nonce ${nonce} is not reserved`);
+            }
+            if (nonces.submitted.has(nonce)) {
+                throw new Error(`Nonce ${nonce} has a submitted transaction`);
+            }
+
+            releaseNonce(nonces, nonce);
+        });
+    }
+
+    public async track(
+        account: string,
+        tx: types.TransactionLike,
+        hash: string,
+    ): Promise<void> {
+        await this.withLock(account, async (nonces) => {
+            const nonce = Number(tx.nonce);
+            if (nonce < nonces.onChain || nonce >= nonces.next) {
+                throw new Error(`Nonce ${nonce} is not reserved`);
+            }
+
+            nonces.submitted.set(nonce, { nonce, hash, tx });
+        });
+    }
+
+    /**
+     * Builds the transaction with a reserved nonce, broadcasts and tracks it
+     * @dev The nonce is released if building or broadcasting fails
+     */
+    public async send(
+        account: string,
+        build: (nonce: number) => Promise<types.TransactionLike>,
+    ): Promise<types.TransactionResponse> {
+        const nonce = await this.reserve(account);
+
+        let tx: types.TransactionLike;
+        let response: types.TransactionResponse;
+        try {
+            tx = await build(nonce);
+            if (Number(tx.nonce) !== nonce) {
+                throw new Error(
+                    `Transaction nonce ${tx.nonce} is not the reserved ${nonce}`,
+                );
+            }
+            response = await this.provider.broadcastTransaction(
+                utils.serializeEip712(tx),
+            );
+        } catch (err) {
+            await this.release(account, nonce);
+            throw err;
+        }
+
+        await this.track(account, tx, response.hash);
+        return response;
+    }
+
+    /**
+     * Syncs with the account's nonce on chain
+     * @dev Call after confirmations, or when transactions may have been dropped
+     */
+    public async reconcile(account: string): Promise<ReconcileResult> {
+        return await this.withLock(account, async (nonces) => {
+            const onChain = await this.provider.getTransactionCount(account);
+            const confirmed: Array<TrackedTransaction> = [];
+            const dropped: Array<TrackedTransaction> = [];
+
+            nonces.onChain = onChain;
+            // Transactions sent without the manager used the nonces after ours
+            nonces.next = Math.max(nonces.next, onChain);
+            nonces.released = nonces.released.filter(
+                (nonce) => nonce >= onChain,
+            );
+
+            for (const [nonce, tracked] of nonces.submitted) {
+                if (nonce < onChain) {
+                    confirmed.push(tracked);
+                    nonces.submitted.delete(nonce);
+                    continue;
+                }
+
+                const known = (await this.provider.getTransaction(
+                    tracked.hash,
+                )) as types.TransactionResponse | null;
+                if (known === null) {
+                    dropped.push(tracked);
+                    nonces.submitted.delete(nonce);
+                    releaseNonce(nonces, nonce);
+                }
+            }
+
+            return {
+                confirmed: sortByNonce(confirmed),
+                dropped: sortByNonce(dropped),
+                nextNonce: nonces.released[0] ?? nonces.next,
+            };
+        });
+    }
+
+    /**
+     * Re-signs a stuck transaction with the same nonce and bumped fees
+     * @dev Keeps the hook data of the original signature, so session key
+     * transactions stay valid for the same session
+     */
+    public async replace(
+        account: Contract,
+        nonce: number,
+        builder: AGWTransactionBuilder,
+        feeBumpPercent = 10,
+    ): Promise<types.TransactionResponse> {
+        const accountAddress = await account.getAddress();
+
+        return await this.withLock(accountAddress, async (nonces) => {
+            const tracked = nonces.submitted.get(nonce);
+            if (!tracked) {
+                throw new Error(`No submitted transaction with nonce ${nonce}`);
+            }
+            if (
+                nonce <
+                (await this.provider.getTransactionCount(accountAddress))
+            ) {
+                throw new Error(`Nonce ${nonce} is already used on chain`);
+            }
+
+            const { tx } = tracked;
+            if (!tx.customData?.customSignature) {
+                throw new Error(
+                    `Transaction with nonce ${nonce} was not signed for the bootloader`,
+                );
+            }
+            const { hookData } = decodeTransactionSignature(
+                tx.customData.customSignature,
+            );
+            const gasPrice = await this.provider.getGasPrice();
+            const bump = (fee: bigint): bigint =>
+                (fee * BigInt(100 + feeBumpPercent)) / 100n;
+            const maxFeePerGas = bump(BigInt(tx.maxFeePerGas ?? 0));
+
+            const replacement = await builder.populate(
+                account,
+                { to: tx.to, data: tx.data, value: tx.value },
+                hookData,
+                tx.customData?.paymasterParams,
+                {
+                    nonce,
+                    gasLimit: tx.gasLimit ?? undefined,
+                    maxFeePerGas:
+                        maxFeePerGas > gasPrice ? maxFeePerGas : gasPrice,
+                    maxPriorityFeePerGas: bump(
+                        BigInt(tx.maxPriorityFeePerGas ?? 0),
+                    ),
+                    gasPerPubdata: tx.customData?.gasPerPubdata,
+                },
+            );
+
+            const response = await this.provider.broadcastTransaction(
+                utils.serializeEip712(replacement),
+            );
+            nonces.submitted.set(nonce, {
+                nonce,
+                hash: response.hash,
+                tx: replacement,
+            });
+            return response;
+        });
+    }
+
+    // Runs fn after the account's previous calls, so reservations never race
+    private async withLock<T>(
+        account: string,
+        fn: (nonces: AccountNonces) => Promise<T>,
+    ): Promise<T> {
+        const key = getAddress(account);
+        const previous = this.locks.get(key) ?? Promise.resolve();
+
+        const result = previous.then(async () => fn(await this.load(key)));
+        this.locks.set(key, result.catch(() => undefined));
+        return await result;
+    }
+
+    private async load(account: string): Promise<AccountNonces> {
+        let nonces = this.accounts.get(account);
+        if (!nonces) {
+            const onChain = await this.provider.getTransactionCount(account);
+            nonces = {
+                onChain,
+                next: onChain,
+                released: [],
+                submitted: new Map(),
+            };
+            this.accounts.set(account, nonces);
+        }
+        return nonces;
+    }
+}
+
+// The highest nonces shrink the reservations, the rest wait to be reused
+function releaseNonce(nonces: AccountNonces, nonce: number): void {
+    nonces.released.push(nonce);
+    nonces.released.sort((a, b) => a - b);
+
+    while (
+        nonces.released.length > 0 &&
+        nonces.released[nonces.released.length - 1] === nonces.next - 1
+    ) {
+        nonces.released.pop();
+        nonces.next--;
+    }
+}
+
+function sortByNonce(
+    transactions: Array<TrackedTransaction>,
+): Array<TrackedTransaction> {
+    return transactions.sort((a, b) => a.nonce - b.nonce);
+}
@@ -0,0 +1,119 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import {
+    DataServiceWrapper,
+    MockWrapper,
+} from '@redstone-finance/evm-connector';
+import type { MockSignerIndex } from '@redstone-finance/evm-connector/dist/src/helpers/test-utils';
+import { getMockNumericPackage } from '@redstone-finance/evm-connector/dist/src/helpers/test-utils';
+import type { BytesLike } from 'ethers';
+import { concat } from 'ethers';
+import type { Contract } from 'zksync-ethers';
+
+// Data feeds the paymasters read, tokens are priced at 1$
+export const DEFAULT_DATA_FEEDS = ['ETH'];
+
+// Signed packages a Redstone consumer contract accepts
+export type OracleConfig = {
+    dataServiceId: string;
+    uniqueSignersCount: number;
+    dataFeeds: Array<string>;
+    // Gateways of the data service by default
+    urls?: Array<string>;
+};
+
+/**
+ * Produces Redstone payloads for the oracleCalldata of paymaster inputs
+ * @dev Payloads are padded to a multiple of 32 bytes, so they stay at the end
+ * of the calldata when passed as an ABI encoded bytes argument
+ */
+export interface OraclePayloadProvider {
+    getPayload(): Promise<string>;
+}
+
+// Reads the data service and signer threshold of a Redstone consumer
+export async function getOracleConfig(
+    consumer: Contract,
+    dataFeeds: Array<string> = DEFAULT_DATA_FEEDS,
+): Promise<OracleConfig> {
+    const [dataServiceId, uniqueSignersCount] = await Promise.all([
+        consumer.getDataServiceId(),
+        consumer.getUniqueSignersThreshold(),
+    ]);
+
+    return {
+        dataServiceId,
+        uniqueSignersCount: Number(uniqueSignersCount),
+        dataFeeds,
+    };
+}
+
+// Fetches signed price packages from the data service gateways
+export class RedstonePayloadProvider implements OraclePayloadProvider {
+    private config: OracleConfig;
+
+    constructor(config: OracleConfig) {
+        this.config = config;
+    }
+
+    public async getPayload(): Promise<string> {
+        const wrapper = new DataServiceWrapper({
+            dataServiceId: this.config.dataServiceId,
+            uniqueSignersCount: this.config.uniqueSignersCount,
+            dataPackagesIds: this.config.dataFeeds,
+            urls: this.config.urls,
+        });
+
+        return '0x' + (await wrapper.prepareRedstonePayload(true));
+    }
+}
+
+/**
+ * Signs price packages offline with the Redstone mock signers
+ * @dev Only consumers that authorise the mock signers, like MockOracle,
+ * accept the payloads. The same prices and timestamp give the same payload
+ */
+export class MockOraclePayloadProvider implements OraclePayloadProvider {
+    private prices: Record<string, number>;
+    private timestampMilliseconds: number;
+    private signersCount: number;
+
+    constructor(
+        prices: Record<string, number>,
+        // Consumers reject packages 3 minutes behind the block timestamp
+        timestampMilliseconds: number,
+        signersCount = 3,
+    ) {
+        this.prices = prices;
+        this.timestampMilliseconds = timestampMilliseconds;
+        this.signersCount = signersCount;
+    }
+
+    public async getPayload(): Promise<string> {
+        const dataPoints = Object.entries(this.prices).map(
+            ([dataFeedId, value]) => ({ dataFeedId, value }),
+        );
+        const packages = Array.from({ length: this.signersCount }, (_, i) =>
+            getMockNumericPackage({
+                mockSignerIndex: i as MockSignerIndex,
+                timestampMilliseconds: this.timestampMilliseconds,
+                dataPoints,
+            }),
+        );
+
+        return (
+            '0x' + (await new MockWrapper(packages).prepareRedstonePayload(true))
+        );
+    }
+}
+
+// Consumers read the payload from the end of their calldata
+export function appendOraclePayload(
+    calldata: BytesLike,
+    payload: BytesLike,
+): string {
+    return concat([calldata, payload]);
+}
@@ -0,0 +1,132 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BytesLike } from 'ethers';
+import { parseEther } from 'ethers';
+import type { Contract, Provider, Wallet, types } from 'zksync-ethers';
+import { utils } from 'zksync-ethers';
+
+import type { NonceManager } from './nonces';
+import { encodeOutsideSignature } from './signatures';
+import type { TransactionStruct } from './transactions';
+import { toTransactionStruct } from './transactions';
+
+/**
+ * Sends account transactions through executeTransactionFromOutside, from a k1
+ * owner EOA that pays the gas
+ * @dev Takes both the account's and the owner's nonces from the nonce manager,
+ * if given, so outside transactions can run beside bootloader ones
+ */
+export class OutsideTransactionClient {
+    private provider: Provider;
+    private owner: Wallet;
+    private nonceManager?: NonceManager;
+
+    constructor(
+        provider: Provider,
+        owner: Wallet,
+        nonceManager?: NonceManager,
+    ) {
+        this.provider = provider;
+        this.owner = owner;
+        this.nonceManager = nonceManager;
+    }
+
+    /**
+     * Builds the Transaction struct the account runs its hooks with
+     * @dev Fee fields stay zero, the owner pays for the outer transaction
+     */
+    public async populate(
+        account: Contract,
+        tx: types.TransactionLike,
+        hookData: Array<BytesLike> = [],
+        nonce?: number,
+    ): Promise<TransactionStruct> {
+        const accountAddress = await account.getAddress();
+
+        return toTransactionStruct({
+            ...tx,
+            value: tx.value ?? parseEther('0'),
+            from: accountAddress,
+            nonce:
+                nonce ??
+                (await this.provider.getTransactionCount(accountAddress)),
+            type: utils.EIP712_TX_TYPE,
+            customData: {
+                customSignature: encodeOutsideSignature(hookData),
+            },
+        });
+    }
+
+    public async populateOuter(
+        account: Contract,
+        tx: types.TransactionLike,
+        hookData: Array<BytesLike> = [],
+        nonce?: number,
+    ): Promise<types.TransactionLike> {
+        const transaction = await this.populate(account, tx, hookData, nonce);
+
+        return {
+            to: await account.getAddress(),
+            data: account.interface.encodeFunctionData(
+                'executeTransactionFromOutside',
+                [transaction],
+            ),
+        };
+    }
+
+    // Checks the owner first, for a clearer error than the account's revert
+    public async send(
+        account: Contract,
+        tx: types.TransactionLike,
+        hookData: Array<BytesLike> = [],
+    ): Promise<types.TransactionResponse> {
+        const ownerAddress = await this.owner.getAddress();
+        if (!(await account.k1IsOwner(ownerAddress))) {
+            throw new Error(`${ownerAddress} is not a k1 owner of the account`);
+        }
+
+        if (!this.nonceManager) {
+            return await this.owner.sendTransaction(
+                await this.populateOuter(account, tx, hookData),
+            );
+        }
+
+        const accountAddress = await account.getAddress();
+        // Reserved in the same tick, so parallel sends pair nonces in order
+        const [accountNonce, ownerNonce] = await Promise.all([
+            this.nonceManager.reserve(accountAddress),
+            this.nonceManager.reserve(ownerAddress),
+        ]);
+
+        let outerTx: types.TransactionLike;
+        let response: types.TransactionResponse;
+        try {
+            outerTx = {
+                ...(await this.populateOuter(
+                    account,
+                    tx,
+                    hookData,
+                    accountNonce,
+                )),
+                nonce: ownerNonce,
+            };
+            response = await this.owner.sendTransaction(outerTx);
+        } catch (err) {
+            await this.nonceManager.release(accountAddress, accountNonce);
+            await this.nonceManager.release(ownerAddress, ownerNonce);
+            throw err;
+        }
+
+        // Both nonces are used by the owner's transaction
+        await this.nonceManager.track(
+            accountAddress,
+            { ...tx, from: accountAddress, nonce: accountNonce },
+            response.hash,
+        );
+        await this.nonceManager.track(ownerAddress, outerTx, response.hash);
+        return response;
+    }
+}
@@ -0,0 +1,310 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import elliptic from 'elliptic';
+import type { BytesLike } from 'ethers';
+import { getAddress, getBytes, hexlify } from 'ethers';
+import type { Contract, Provider, types } from 'zksync-ethers';
+import { utils } from 'zksync-ethers';
+
+import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCaller';
+import { bufferFromBase64url } from './buffer';
+import { encodePublicKey } from './p256';
+import type { AGWTransactionBuilder } from './transactions';
+
+// Public key of a P-256 JWK, as WebAuthn and WebCrypto export them
+export type P256JsonWebKey = {
+    kty: 'EC';
+    crv: 'P-256';
+    x: string;
+    y: string;
+};
+
+/**
+ * P-256 public key in any of the accepted forms
+ * @dev Raw keys are x || y, or SEC1 encoded with a 0x02, 0x03 or 0x04 prefix
+ */
+export type P256PublicKey = BytesLike | P256JsonWebKey | elliptic.ec.KeyPair;
+
+export type OwnerChange =
+    | { kind: 'r1Add' | 'r1Remove' | 'reset'; publicKey: string }
+    | { kind: 'k1Add' | 'k1Remove'; address: string };
+
+export type AccountOwners = {
+    r1Owners: Array<string>;
+    k1Owners: Array<string>;
+};
+
+/**
+ * Encodes a P-256 public key as the 64 byte x || y the account stores
+ * @dev Checks that the point is on the curve, a malformed key would lock
+ * the owner out
+ */
+export function encodeR1PublicKey(key: P256PublicKey): string {
+    const ec = new elliptic.ec('p256');
+
+    let keyPair: elliptic.ec.KeyPair;
+    if (isKeyPair(key)) {
+        keyPair = key;
+    } else if (isJsonWebKey(key)) {
+        if (key.kty !== 'EC' || key.crv !== 'P-256') {
+            throw new Error(`Unsupported JWK ${key.kty} ${key.crv}`);
+        }
+        keyPair = ec.keyFromPublic({
+            x: bufferFromBase64url(key.x).toString('hex'),
+            y: bufferFromBase64url(key.y).toString('hex'),
+        });
+    } else {
+        const raw = hexlify(key).slice(2);
+        // Uncompressed SEC1 keys are x || y behind a 0x04 prefix
+        const sec1 = getBytes(key).length === 64 ? '04' + raw : raw;
+        keyPair = ec.keyFromPublic(sec1, 'hex');
+    }
+
+    const validation = keyPair.validate();
+    if (!validation.result) {
+        throw new Error(`Invalid P-256 public key: ${validation.reason}`);
+    }
+    return encodePublicKey(keyPair);
+}
+
+/**
+ * Owner changes, applied in order in one transaction
+ * @dev Several changes go through the account's batchCall
+ */
+export class OwnerChangeSet {
+    private changes: Array<OwnerChange> = [];
+
+    public addR1Owner(key: P256PublicKey): this {
+        this.changes.push({ kind: 'r1Add', publicKey: encodeR1PublicKey(key) });
+        return this;
+    }
+
+    public removeR1Owner(key: P256PublicKey): this {
+        this.changes.push({
+            kind: 'r1Remove',
+            publicKey: encodeR1PublicKey(key),
+        });
+        return this;
+    }
+
+    public addK1Owner(address: string): this {
+        this.changes.push({ kind: 'k1Add', address: getAddress(address) });
+        return this;
+    }
+
+    public removeK1Owner(address: string): this {
+        this.changes.push({ kind: 'k1Remove', address: getAddress(address) });
+        return this;
+    }
+
+    // Leaves the key as the only owner
+    public resetOwners(key: P256PublicKey): this {
+        this.changes.push({ kind: 'reset', publicKey: encodeR1PublicKey(key) });
+        return this;
+    }
+
+    public list(): Array<OwnerChange> {
+        return [...this.changes];
+    }
+}
+
+/**
+ * Applies the changes to the owners like OwnerManager does
+ * @dev Throws with the error the account would revert with. New owners are
+ * listed first, as the account's linked lists add them at the head
+ */
+export function applyOwnerChanges(
+    owners: AccountOwners,
+    changes: Array<OwnerChange>,
+): AccountOwners {
+    const r1Owners = owners.r1Owners.map((owner) => owner.toLowerCase());
+    const k1Owners = owners.k1Owners.map((owner) => getAddress(owner));
+
+    for (const change of changes) {
+        switch (change.kind) {
+            case 'r1Add':
+                if (r1Owners.includes(change.publicKey)) {
+                    throw new Error('BYTES_ALREADY_EXISTS');
+                }
+                r1Owners.unshift(change.publicKey);
+                break;
+            case 'r1Remove': {
+                const index = r1Owners.indexOf(change.publicKey);
+                if (index === -1) {
+                    throw new Error('BYTES_NOT_EXISTS');
+                }
+                r1Owners.splice(index, 1);
+                break;
+            }
+            case 'k1Add':
+                if (k1Owners.includes(change.address)) {
+                    throw new Error('ADDRESS_ALREADY_EXISTS');
+                }
+                k1Owners.unshift(change.address);
+                break;
+            case 'k1Remove': {
+                const index = k1Owners.indexOf(change.address);
+                if (index === -1) {
+                    throw new Error('ADDRESS_NOT_EXISTS');
+                }
+                k1Owners.splice(index, 1);
+                // k1RemoveOwner never removes the last K1 owner
+                if (k1Owners.length === 0) {
+                    throw new Error('EMPTY_OWNERS');
+                }
+                break;
+            }
+            case 'reset':
+                r1Owners.splice(0, r1Owners.length, change.publicKey);
+                k1Owners.splice(0, k1Owners.length);
+                break;
+        }
+    }
+
+    return { r1Owners, k1Owners };
+}
+
+/**
+ * Manages the K1 and R1 owners of an account
+ * @dev Refuses changes after which no owner can sign for a registered
+ * validator, as the account could then only be recovered through a module
+ */
+export class OwnerManagerClient {
+    private provider: Provider;
+    private builder: AGWTransactionBuilder;
+
+    constructor(provider: Provider, builder: AGWTransactionBuilder) {
+        this.provider = provider;
+        this.builder = builder;
+    }
+
+    public async owners(account: Contract): Promise<AccountOwners> {
+        const [r1Owners, k1Owners] = await Promise.all([
+            account.r1ListOwners(),
+            account.k1ListOwners(),
+        ]);
+
+        return { r1Owners: [...r1Owners], k1Owners: [...k1Owners] };
+    }
+
+    // Owners after the changes, if an owner stays usable
+    public async check(
+        account: Contract,
+        changes: OwnerChangeSet | Array<OwnerChange>,
+    ): Promise<AccountOwners> {
+        const list = toList(changes);
+        if (list.length === 0) {
+            throw new Error('No owner changes');
+        }
+
+        const [owners, r1Validators, k1Validators] = await Promise.all([
+            this.owners(account),
+            account.r1ListValidators(),
+            account.k1ListValidators(),
+        ]);
+        const after = applyOwnerChanges(owners, list);
+
+        // Module validators do not read the owners
+        const usable =
+            (after.r1Owners.length > 0 && r1Validators.length > 0) ||
+            (after.k1Owners.length > 0 && k1Validators.length > 0);
+        if (!usable) {
+            throw new Error(
+                'Changes leave no owner usable by a registered validator',
+            );
+        }
+        return after;
+    }
+
+    // One owner call, or a batchCall to the account for several
+    public async populate(
+        account: Contract,
+        changes: OwnerChangeSet | Array<OwnerChange>,
+    ): Promise<types.TransactionLike> {
+        await this.check(account, changes);
+
+        const calls = await ownerCalls(account, toList(changes));
+        if (calls.length === 1) {
+            return await this.builder.populate(account, {
+                to: calls[0].target,
+                data: calls[0].callData,
+            });
+        }
+        return await this.builder.populateBatch(account, calls);
+    }
+
+    public async send(
+        account: Contract,
+        changes: OwnerChangeSet | Array<OwnerChange>,
+    ): Promise<types.TransactionResponse> {
+        return await this.provider.broadcastTransaction(
+            utils.serializeEip712(await this.populate(account, changes)),
+        );
+    }
+}
+
+// Calls of the account to itself, for batchCall
+export async function ownerCalls(
+    account: Contract,
+    changes: Array<OwnerChange>,
+): Promise<Array<CallStruct>> {
+    const accountAddress = await account.getAddress();
+
+    return changes.map((change) => {
+        let callData: string;
+        switch (change.kind) {
+            case 'r1Add':
+                callData = account.interface.encodeFunctionData('r1AddOwner', [
+                    change.publicKey,
+                ]);
+                break;
+            case 'r1Remove':
+                callData = account.interface.encodeFunctionData(
+                    'r1RemoveOwner',
+                    [change.publicKey],
+                );
+                break;
+            case 'k1Add':
+                callData = account.interface.encodeFunctionData('k1AddOwner', [
+                    change.address,
+                ]);
+                break;
+            case 'k1Remove':
+                callData = account.interface.encodeFunctionData(
+                    'k1RemoveOwner',
+                    [change.address],
+                );
+                break;
+            case 'reset':
+                callData = account.interface.encodeFunctionData(
+                    'resetOwners',
+                    [change.publicKey],
+                );
+                break;
+        }
+
+        return {
+            target: accountAddress,
+            allowFailure: false,
+            value: 0n,
+            callData,
+        };
+    });
+}
+
+function toList(
+    changes: OwnerChangeSet | Array<OwnerChange>,
+): Array<OwnerChange> {
+    return changes instanceof OwnerChangeSet ? changes.list() : changes;
+}
+
+function isKeyPair(key: P256PublicKey): key is elliptic.ec.KeyPair {
+    return typeof key === 'object' && 'getPublic' in key;
+}
+
+function isJsonWebKey(key: P256PublicKey): key is P256JsonWebKey {
+    return typeof key === 'object' && 'kty' in key;
+}
@@ -8,6 +8,15 @@ import { keccak256 } from 'ethers';
 import BN from 'bn.js';
 import { ethers } from 'ethers';
 
+// Maximum allowed value for 's' in secp256r1
+export const P256_LOW_S_MAX = BigInt(
+    '0x7fffffff800000007fffffffffffffffde737d56d38bcf4279dce5617e3192a8',
+);
+// Order of the secp256r1 curve
+export const P256_N = BigInt(
+    '0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551',
+);
+
 export function genKey(): elliptic.ec.KeyPair {
     const ec = new elliptic.ec('p256');
     return ec.genKeyPair();
@@ -70,6 +79,21 @@ export function sign(msg: string, key: elliptic.ec.KeyPair): string {
 }
 
 
+// Verifies an r || s signature over a message hash, as the P256 verifier does
+export function verify(
+    msg: string,
+    signature: string,
+    publicKey: string,
+): boolean {
+    const ec = new elliptic.ec('p256');
+    const key = ec.keyFromPublic('04' + publicKey.slice(2), 'hex');
+
+    return key.verify(Buffer.from(msg.slice(2), 'hex'), {
+        r: signature.slice(2, 66),
+        s: signature.slice(66, 130),
+    });
+}
+
 function isSecp256k1(curve: any): boolean {
     return curve.type === 'short' && 
            curve.p.toString(16) === 'fffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f';
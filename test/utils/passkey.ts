@@ -3,29 +3,337 @@
  * Unauthorized copying of this file, via any medium is strictly prohibited
  * Proprietary and confidential
  */
-import { sha256 } from 'ethers';
+import type { ec } from 'elliptic';
+import type { BytesLike } from 'ethers';
+import { AbiCoder, getBytes, hexlify, sha256 } from 'ethers';
 
 import { bufferFromBase64url, bufferFromString } from './buffer';
+import { P256_LOW_S_MAX, P256_N, sign, verify } from './p256';
 
-// hash of 'https://getclave.io' + (BE, BS, UP, UV) flags set + unincremented sign counter
+// hash of 'getclave.io' + (BE, BS, UP, UV) flags set + unincremented sign counter
 const authData = bufferFromBase64url(
     'F1-vhQTCzdfAF3iosO_Uh07LOu_X67cHmpQfe-iJfUEdAAAAAA',
 );
-const clientDataPrefix = bufferFromString(
-    '{"type":"webauthn.get","challenge":"',
-);
-const clientDataSuffix = bufferFromString('","origin":"https://getclave.io"}');
-
-export function getSignedData(challenge: string): string {
-    const challengeBuffer = Buffer.from(challenge.slice(2), 'hex');
-    const challengeBase64 = challengeBuffer.toString('base64url');
-    const clientData = Buffer.concat([
-        clientDataPrefix,
-        bufferFromString(challengeBase64),
-        clientDataSuffix,
+const clientDataPrefix = '{"type":"webauthn.get","challenge":"';
+// Suffixes the PasskeyValidator accepts for compact signatures
+const iosClientDataSuffix = '","origin":"https://getclave.io"}';
+const androidClientDataSuffix =
+    '","origin":"android:apk-key-hash:-sYXRdwJA3hvue3mKpYrOZ9zSPC7b4mbgzJmdZEDO5w","androidPackageName":"com.clave.mobile"}';
+
+// Authenticator data flags, the PasskeyValidator requires UP and UV
+export enum AUTH_DATA_FLAGS {
+    UP = 0x01,
+    UV = 0x04,
+    BE = 0x08,
+    BS = 0x10,
+}
+
+export type AssertionOptions = {
+    rpId: string;
+    origin: string;
+    // Defaults to UP | UV | BE | BS
+    flags?: number;
+    // Defaults to 0
+    signCount?: number;
+    // Left out of the client data when undefined
+    crossOrigin?: boolean;
+    // Appended to the client data after origin and crossOrigin
+    extraClientData?: Record<string, unknown>;
+};
+
+// Result of navigator.credentials.get, with a raw low-s signature
+export type Assertion = {
+    authenticatorData: string;
+    clientDataJSON: string;
+    r: string;
+    s: string;
+};
+
+// Base64url encoded fields of an AuthenticatorAssertionResponse
+export type AssertionResponse = {
+    authenticatorData: string;
+    clientDataJSON: string;
+    signature: string;
+};
+
+export const CLAVE_ASSERTION: AssertionOptions = {
+    rpId: 'getclave.io',
+    origin: 'https://getclave.io',
+};
+
+export function getAuthenticatorData(options: AssertionOptions): Buffer {
+    const flags =
+        options.flags ??
+        AUTH_DATA_FLAGS.UP |
+            AUTH_DATA_FLAGS.UV |
+            AUTH_DATA_FLAGS.BE |
+            AUTH_DATA_FLAGS.BS;
+    const signCount = options.signCount ?? 0;
+
+    if (!Number.isInteger(flags) || flags < 0 || flags > 0xff) {
+        throw new Error(`Invalid authenticator data flags: ${flags}`);
+    }
+    if (
+        !Number.isInteger(signCount) ||
+        signCount < 0 ||
+        signCount > 0xffffffff
+    ) {
+        throw new Error(`Invalid sign counter: ${signCount}`);
+    }
+
+    const flagsAndCounter = Buffer.alloc(5);
+    flagsAndCounter.writeUInt8(flags, 0);
+    flagsAndCounter.writeUInt32BE(signCount, 1);
+
+    return Buffer.concat([
+        Buffer.from(sha256(bufferFromString(options.rpId)).slice(2), 'hex'),
+        flagsAndCounter,
     ]);
+}
+
+/**
+ * Returns the client data JSON after the challenge, as the fat signature carries it
+ * @dev Field order follows the WebAuthn spec: type, challenge, origin, crossOrigin
+ */
+export function getClientDataSuffix(options: AssertionOptions): string {
+    const extraClientData = options.extraClientData ?? {};
+    for (const key of ['type', 'challenge', 'origin', 'crossOrigin']) {
+        if (key in extraClientData) {
+            throw new Error(`Extra client data can not override ${key}`);
+        }
+    }
+
+    const fields = JSON.stringify({
+        origin: options.origin,
+        crossOrigin: options.crossOrigin,
+        ...extraClientData,
+    });
+
+    return '",' + fields.slice(1);
+}
+
+export function getClientDataJSON(
+    challenge: string,
+    options: AssertionOptions,
+): string {
+    const challengeBase64 = Buffer.from(challenge.slice(2), 'hex').toString(
+        'base64url',
+    );
+
+    return clientDataPrefix + challengeBase64 + getClientDataSuffix(options);
+}
+
+export function getSignedData(
+    challenge: string,
+    options: AssertionOptions = CLAVE_ASSERTION,
+): string {
+    return getAssertionMessage(
+        getAuthenticatorData(options),
+        getClientDataJSON(challenge, options),
+    );
+}
+
+export function signAssertion(
+    challenge: string,
+    keyPair: ec.KeyPair,
+    options: AssertionOptions = CLAVE_ASSERTION,
+): Assertion {
+    const authenticatorData = getAuthenticatorData(options);
+    const clientDataJSON = getClientDataJSON(challenge, options);
+
+    const signature = sign(
+        getAssertionMessage(authenticatorData, clientDataJSON),
+        keyPair,
+    );
+
+    return {
+        authenticatorData: '0x' + authenticatorData.toString('hex'),
+        clientDataJSON,
+        r: '0x' + signature.slice(2, 66),
+        s: toLowS('0x' + signature.slice(66, 130)),
+    };
+}
+
+// Converts an authenticator response, DER signature included, to an assertion
+export function parseAssertionResponse(response: AssertionResponse): Assertion {
+    const [r, s] = decodeDERSignature(
+        bufferFromBase64url(response.signature),
+    );
+
+    return {
+        authenticatorData:
+            '0x' +
+            bufferFromBase64url(response.authenticatorData).toString('hex'),
+        clientDataJSON: bufferFromBase64url(response.clientDataJSON).toString(
+            'utf8',
+        ),
+        r,
+        s: toLowS(s),
+    };
+}
+
+/**
+ * Encodes the 65 byte signature of the PasskeyValidator
+ * @dev Only assertions with the validator's fixed authenticator and client data fit
+ */
+export function encodeCompactSignature(assertion: Assertion): string {
+    if (
+        assertion.authenticatorData.toLowerCase() !==
+        '0x' + authData.toString('hex')
+    ) {
+        throw new Error(
+            'Compact signatures require the getclave.io authenticator data, use a fat signature',
+        );
+    }
+
+    const suffix = splitClientData(assertion.clientDataJSON);
+    let prefix: string;
+    if (suffix === iosClientDataSuffix) {
+        prefix = '0x01';
+    } else if (suffix === androidClientDataSuffix) {
+        prefix = '0x00';
+    } else {
+        throw new Error(
+            'Compact signatures require the getclave.io client data, use a fat signature',
+        );
+    }
+
+    return prefix + assertion.r.slice(2) + assertion.s.slice(2);
+}
+
+// Encodes (authenticatorData, clientDataSuffix, rs) for _validateFatSignature
+export function encodeFatSignature(assertion: Assertion): string {
+    return AbiCoder.defaultAbiCoder().encode(
+        ['bytes', 'string', 'bytes32[2]'],
+        [
+            assertion.authenticatorData,
+            splitClientData(assertion.clientDataJSON),
+            [assertion.r, assertion.s],
+        ],
+    );
+}
+
+/**
+ * Verifies a compact or fat signature the way the PasskeyValidator does
+ * @param publicKey - x || y, as the account stores R1 owners
+ */
+export function verifyPasskeySignature(
+    challenge: string,
+    signature: BytesLike,
+    publicKey: string,
+): boolean {
+    const bytes = getBytes(signature);
+
+    let authenticatorData: Buffer;
+    let clientDataSuffix: string;
+    let r: string;
+    let s: string;
+    if (bytes.length === 65) {
+        authenticatorData = authData;
+        clientDataSuffix =
+            bytes[0] === 0x00 ? androidClientDataSuffix : iosClientDataSuffix;
+        r = hexlify(bytes.subarray(1, 33));
+        s = hexlify(bytes.subarray(33, 65));
+    } else {
+        try {
+            const [data, suffix, rs] = AbiCoder.defaultAbiCoder().decode(
+                ['bytes', 'string', 'bytes32[2]'],
+                bytes,
+            );
+            authenticatorData = Buffer.from(getBytes(data));
+            clientDataSuffix = suffix;
+            [r, s] = rs;
+        } catch {
+            return false;
+        }
+
+        const required = AUTH_DATA_FLAGS.UP | AUTH_DATA_FLAGS.UV;
+        if (
+            authenticatorData.length < 33 ||
+            (authenticatorData[32] & required) !== required
+        ) {
+            return false;
+        }
+    }
+
+    if (BigInt(s) > P256_LOW_S_MAX) {
+        return false;
+    }
+
+    const challengeBase64 = Buffer.from(challenge.slice(2), 'hex').toString(
+        'base64url',
+    );
+    const message = getAssertionMessage(
+        authenticatorData,
+        clientDataPrefix + challengeBase64 + clientDataSuffix,
+    );
+
+    return verify(message, r + s.slice(2), publicKey);
+}
+
+function getAssertionMessage(
+    authenticatorData: Buffer,
+    clientDataJSON: string,
+): string {
+    const clientDataHash = Buffer.from(
+        sha256(bufferFromString(clientDataJSON)).slice(2),
+        'hex',
+    );
+
+    return sha256(Buffer.concat([authenticatorData, clientDataHash]));
+}
+
+// Returns the client data after the challenge, the validator rebuilds the rest
+function splitClientData(clientDataJSON: string): string {
+    if (!clientDataJSON.startsWith(clientDataPrefix)) {
+        throw new Error(
+            'Client data must start with the webauthn.get type and challenge',
+        );
+    }
+
+    const challengeEnd = clientDataJSON.indexOf('"', clientDataPrefix.length);
+    if (challengeEnd === -1) {
+        throw new Error('Client data challenge is not terminated');
+    }
+
+    return clientDataJSON.slice(challengeEnd);
+}
+
+function toLowS(s: string): string {
+    let value = BigInt(s);
+    if (value > P256_LOW_S_MAX) {
+        value = P256_N - value;
+    }
+
+    return '0x' + value.toString(16).padStart(64, '0');
+}
+
+// Reads r and s from SEQUENCE { INTEGER r, INTEGER s }
+function decodeDERSignature(der: Buffer): [string, string] {
+    if (der[0] !== 0x30 || der[1] !== der.length - 2) {
+        throw new Error('Invalid DER signature');
+    }
+
+    const values: Array<string> = [];
+    let offset = 2;
+    for (let i = 0; i < 2; i++) {
+        if (der[offset] !== 0x02) {
+            throw new Error('Invalid DER signature');
+        }
+        const length = der[offset + 1];
+        const value = der.subarray(offset + 2, offset + 2 + length);
+        if (value.length !== length || length === 0 || length > 33) {
+            throw new Error('Invalid DER signature');
+        }
+        // DER integers are signed, drop the zero byte that keeps them positive
+        const integer = BigInt('0x' + value.toString('hex'));
+        values.push('0x' + integer.toString(16).padStart(64, '0'));
+        offset += 2 + length;
+    }
 
-    const clientDataHash = Buffer.from(sha256(clientData).slice(2), 'hex');
+    if (offset !== der.length) {
+        throw new Error('Invalid DER signature');
+    }
 
-    return sha256(Buffer.concat([authData, clientDataHash]));
+    return [values[0], values[1]];
 }
@@ -3,10 +3,45 @@
  * Unauthorized copying of this file, via any medium is strictly prohibited
  * Proprietary and confidential
  */
-import type { ethers } from 'ethers';
+import type { BigNumberish, ethers } from 'ethers';
+import { Interface, getAddress } from 'ethers';
 import { utils } from 'zksync-ethers';
 import type { Contract, types } from 'zksync-ethers';
 
+import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCaller';
+import type { OraclePayloadProvider } from './oracle';
+import { RedstonePayloadProvider, getOracleConfig } from './oracle';
+
+// Nominators of ERC20Paymaster
+const PRICE_PAIR_NOMINATOR = 10n ** 18n;
+const MARKUP_NOMINATOR = 10n ** 6n;
+const ORACLE_NOMINATOR = 10n ** 8n;
+
+const ERC20_APPROVE_INTERFACE = new Interface([
+    'function approve(address spender, uint256 value)',
+]);
+
+// ERC20Paymaster.allowedTokens entry
+export type ERC20TokenData = {
+    decimals: bigint;
+    // priceMarkup of the token input, times 100
+    markup: bigint;
+};
+
+export type ERC20FeeQuote = {
+    paymaster: string;
+    token: string;
+    // Fee fields the charge depends on, populate the transaction with them
+    gasLimit: bigint;
+    maxFeePerGas: bigint;
+    // gasLimit * maxFeePerGas, paid by the paymaster to the bootloader
+    requiredETH: bigint;
+    // Token amount per 1e18 wei, with the markup applied
+    rate: bigint;
+    // Token amount the paymaster takes, refunds are paid after execution
+    minimalAllowance: bigint;
+};
+
 export function getGaslessPaymasterInput(
     paymasterAddress: types.Address,
 ): types.PaymasterParams {
@@ -30,9 +65,130 @@ export function getERC20PaymasterInput(
     });
 }
 
+// Fetches from the paymaster's data service, unless a provider is given
 export async function getOraclePayload(
     paymasterContract: Contract,
+    payloadProvider?: OraclePayloadProvider,
 ): Promise<string> {
-    paymasterContract;
-    return '0x';
+    payloadProvider ??= new RedstonePayloadProvider(
+        await getOracleConfig(paymasterContract),
+    );
+
+    return await payloadProvider.getPayload();
+}
+
+export async function getERC20TokenData(
+    paymasterContract: Contract,
+    tokenAddress: types.Address,
+): Promise<ERC20TokenData> {
+    const [decimals, markup] =
+        await paymasterContract.allowedTokens(tokenAddress);
+    if (decimals === 0n) {
+        throw new Error(`${tokenAddress} is not allowed by the paymaster`);
+    }
+
+    return { decimals, markup };
+}
+
+/**
+ * Reproduces the charge of ERC20Paymaster.validateAndPayForPaymasterTransaction
+ * @param oracleValue - ETH price with 8 decimals, as callOracle returns it
+ */
+export function quoteERC20Fee(
+    paymasterAddress: types.Address,
+    tokenAddress: types.Address,
+    tokenData: ERC20TokenData,
+    fee: { gasLimit: BigNumberish; maxFeePerGas: BigNumberish },
+    oracleValue: BigNumberish,
+): ERC20FeeQuote {
+    const gasLimit = BigInt(fee.gasLimit);
+    const maxFeePerGas = BigInt(fee.maxFeePerGas);
+
+    const requiredETH = gasLimit * maxFeePerGas;
+    const rate =
+        (BigInt(oracleValue) * tokenData.markup * 10n ** tokenData.decimals) /
+        (ORACLE_NOMINATOR * MARKUP_NOMINATOR);
+
+    return {
+        paymaster: getAddress(paymasterAddress),
+        token: getAddress(tokenAddress),
+        gasLimit,
+        maxFeePerGas,
+        requiredETH,
+        rate,
+        minimalAllowance: (requiredETH * rate) / PRICE_PAIR_NOMINATOR,
+    };
+}
+
+/**
+ * Quotes the fee with the paymaster's token data and oracle value
+ * @dev The oracle value is read with callOracle, the payload must be signed
+ * by the paymaster's data service
+ */
+export async function quoteERC20PaymasterFee(
+    paymasterContract: Contract,
+    tokenAddress: types.Address,
+    fee: { gasLimit: BigNumberish; maxFeePerGas: BigNumberish },
+    oraclePayload: ethers.BytesLike,
+): Promise<ERC20FeeQuote> {
+    const [tokenData, oracleValue] = await Promise.all([
+        getERC20TokenData(paymasterContract, tokenAddress),
+        paymasterContract.callOracle(oraclePayload),
+    ]);
+
+    return quoteERC20Fee(
+        await paymasterContract.getAddress(),
+        tokenAddress,
+        tokenData,
+        fee,
+        oracleValue,
+    );
+}
+
+/**
+ * Prepends an approve of the quoted allowance to the batch
+ * @dev Runs after the fee is taken, which prepareForPaymaster approves, so
+ * the allowance is left standing for a later transaction with the same quote
+ */
+export function withFeeApproval(
+    calls: Array<CallStruct>,
+    quote: ERC20FeeQuote,
+): Array<CallStruct> {
+    return [
+        {
+            target: quote.token,
+            allowFailure: false,
+            value: 0,
+            callData: ERC20_APPROVE_INTERFACE.encodeFunctionData('approve', [
+                quote.paymaster,
+                quote.minimalAllowance,
+            ]),
+        },
+        ...calls,
+    ];
+}
+
+/**
+ * Appends a reset of the paymaster's allowance to the batch
+ * @dev The fee needs no approve call, prepareForPaymaster approves
+ * minimalAllowance before the paymaster takes the fee. It only raises an
+ * allowance that is short, so a larger one is left standing without this
+ */
+export function withFeeAllowanceReset(
+    calls: Array<CallStruct>,
+    paymasterAddress: types.Address,
+    tokenAddress: types.Address,
+): Array<CallStruct> {
+    return [
+        ...calls,
+        {
+            target: tokenAddress,
+            allowFailure: false,
+            value: 0,
+            callData: ERC20_APPROVE_INTERFACE.encodeFunctionData('approve', [
+                paymasterAddress,
+                0,
+            ]),
+        },
+    ];
 }
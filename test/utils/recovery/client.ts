@@ -0,0 +1,334 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BaseWallet, BigNumberish, BytesLike } from 'ethers';
+import { concat, getAddress, hexlify } from 'ethers';
+import type { Contract, Provider, types } from 'zksync-ethers';
+import { utils } from 'zksync-ethers';
+
+import {
+    encodeCloudRecoveryInitData,
+    encodeSocialRecoveryInitData,
+} from '../modules';
+import type { AGWTransactionBuilder } from '../transactions';
+import { sortGuardianSignatures } from './guardians';
+
+// BaseRecovery.RecoveryData, signed by the guardians
+export type RecoveryData = {
+    recoveringAddress: string;
+    newOwner: string;
+    nonce: bigint;
+};
+
+// SocialRecoveryModule.GuardianData
+export type GuardianSignature = {
+    guardian: string;
+    signature: string;
+};
+
+export type SocialRecoveryConfig = {
+    // Seconds between startRecovery and executeRecovery
+    timelock: BigNumberish;
+    threshold: BigNumberish;
+    guardians: Array<string>;
+};
+
+export type RecoveryStatus = {
+    recovering: boolean;
+    // Unix seconds, 0 if not recovering
+    timelockExpiry: bigint;
+    // Null if not recovering
+    newOwner: string | null;
+    // Nonce the next recovery must be signed for
+    nonce: bigint;
+    // Recovering and the timelock has expired
+    executable: boolean;
+};
+
+export type RecoveryStartedEvent = {
+    newOwner: string;
+    timelockExpiry: bigint;
+    blockNumber: number;
+    transactionHash: string;
+};
+
+/**
+ * Collects guardian signatures for the recovery data
+ * @dev Called again with a new nonce if the nonce moves before the start
+ */
+export type SignatureCollector = (
+    data: RecoveryData,
+) => Promise<Array<GuardianSignature>>;
+
+/**
+ * Runs the recovery flow of a BaseRecovery module, from configuring it for the
+ * account to executing or stopping the recovery
+ * @dev Recoveries are started and executed by the module's runner, the
+ * account only configures the module and stops recoveries
+ */
+export abstract class RecoveryClient {
+    protected provider: Provider;
+    protected module: Contract;
+
+    constructor(provider: Provider, module: Contract) {
+        this.provider = provider;
+        this.module = module;
+    }
+
+    public async recoveryData(
+        accountAddress: string,
+        newOwner: BytesLike,
+    ): Promise<RecoveryData> {
+        return {
+            recoveringAddress: getAddress(accountAddress),
+            newOwner: hexlify(newOwner),
+            nonce: await this.module.recoveryNonces(accountAddress),
+        };
+    }
+
+    // Signs the EIP-712 hash of the module, as isValidSignatureNow checks it
+    public async sign(
+        guardian: BaseWallet,
+        data: RecoveryData,
+    ): Promise<GuardianSignature> {
+        const eip712Hash = await this.module.getEip712Hash(data);
+
+        return {
+            guardian: guardian.address,
+            signature: guardian.signingKey.sign(eip712Hash).serialized,
+        };
+    }
+
+    public async status(accountAddress: string): Promise<RecoveryStatus> {
+        const [[timelockExpiry, newOwner], nonce, block] = await Promise.all([
+            this.module.recoveryStates(accountAddress),
+            this.module.recoveryNonces(accountAddress),
+            this.provider.getBlock('latest'),
+        ]);
+        const recovering = timelockExpiry !== 0n;
+
+        return {
+            recovering,
+            timelockExpiry,
+            newOwner: recovering ? newOwner : null,
+            nonce,
+            executable: recovering && timelockExpiry <= BigInt(block.timestamp),
+        };
+    }
+
+    // Latest RecoveryStarted event of the account, null if there is none
+    public async lastRecoveryStarted(
+        accountAddress: string,
+    ): Promise<RecoveryStartedEvent | null> {
+        const events = await this.module.queryFilter(
+            this.module.filters.RecoveryStarted(accountAddress),
+        );
+        const event = events.at(-1);
+        if (!event || !('args' in event)) {
+            return null;
+        }
+
+        return {
+            newOwner: event.args.newOwner,
+            timelockExpiry: event.args.timelockExpiry,
+            blockNumber: event.blockNumber,
+            transactionHash: event.transactionHash,
+        };
+    }
+
+    /**
+     * Collects the signatures and starts the recovery
+     * @dev If another recovery moves the nonce while signatures are collected,
+     * they are collected again for the new nonce, up to `retries` times
+     */
+    public async start(
+        accountAddress: string,
+        newOwner: BytesLike,
+        collect: SignatureCollector,
+        retries = 1,
+    ): Promise<types.TransactionResponse> {
+        for (let attempt = 0; ; attempt++) {
+            const data = await this.recoveryData(accountAddress, newOwner);
+            const signatures = await collect(data);
+
+            const status = await this.status(accountAddress);
+            if (status.recovering) {
+                throw new Error('A recovery is already in progress');
+            }
+            if (status.nonce !== data.nonce) {
+                if (attempt < retries) {
+                    continue;
+                }
+                throw new Error(
+                    `Recovery nonce moved from ${data.nonce} to ${status.nonce}`,
+                );
+            }
+
+            try {
+                return await this.sendStart(data, signatures);
+            } catch (err) {
+                // Lost the race to a recovery started in the meantime
+                const nonce = await this.module.recoveryNonces(accountAddress);
+                if (nonce === data.nonce || attempt >= retries) {
+                    throw err;
+                }
+            }
+        }
+    }
+
+    // Anyone can execute once the timelock has expired
+    public async execute(
+        accountAddress: string,
+    ): Promise<types.TransactionResponse> {
+        const status = await this.status(accountAddress);
+        if (!status.recovering) {
+            throw new Error('No recovery in progress');
+        }
+        if (!status.executable) {
+            throw new Error(
+                `Recovery timelock expires at ${status.timelockExpiry}`,
+            );
+        }
+
+        return await this.module.executeRecovery(accountAddress);
+    }
+
+    // Only the account can stop its recovery, with a key it still holds
+    public async stop(
+        builder: AGWTransactionBuilder,
+        account: Contract,
+    ): Promise<types.TransactionResponse> {
+        const status = await this.status(await account.getAddress());
+        if (!status.recovering) {
+            throw new Error('No recovery in progress');
+        }
+
+        return await this.sendAccountTx(
+            builder,
+            account,
+            await this.module.stopRecovery.populateTransaction(),
+        );
+    }
+
+    protected abstract sendStart(
+        data: RecoveryData,
+        signatures: Array<GuardianSignature>,
+    ): Promise<types.TransactionResponse>;
+
+    // Adds the module with the init data, or updates the config if it is added
+    protected async configureModule(
+        builder: AGWTransactionBuilder,
+        account: Contract,
+        initData: string,
+        updateTx: types.TransactionLike,
+    ): Promise<types.TransactionResponse> {
+        const moduleAddress = await this.module.getAddress();
+        if (!(await account.isModule(moduleAddress))) {
+            return await this.sendAccountTx(
+                builder,
+                account,
+                await account.addModule.populateTransaction(
+                    concat([moduleAddress, initData]),
+                ),
+            );
+        }
+
+        if ((await this.status(await account.getAddress())).recovering) {
+            throw new Error('Can not configure during a recovery');
+        }
+        return await this.sendAccountTx(builder, account, updateTx);
+    }
+
+    private async sendAccountTx(
+        builder: AGWTransactionBuilder,
+        account: Contract,
+        tx: types.TransactionLike,
+    ): Promise<types.TransactionResponse> {
+        const populated = await builder.populate(account, tx);
+
+        return await this.provider.broadcastTransaction(
+            utils.serializeEip712(populated),
+        );
+    }
+}
+
+export class SocialRecoveryClient extends RecoveryClient {
+    public async configure(
+        builder: AGWTransactionBuilder,
+        account: Contract,
+        config: SocialRecoveryConfig,
+    ): Promise<types.TransactionResponse> {
+        const recoveryConfig = {
+            timelock: config.timelock,
+            threshold: config.threshold,
+            guardians: config.guardians,
+        };
+
+        return await this.configureModule(
+            builder,
+            account,
+            encodeSocialRecoveryInitData(recoveryConfig),
+            await this.module.updateConfig.populateTransaction(recoveryConfig),
+        );
+    }
+
+    // Signs with every guardian, the module requires ascending guardians
+    public async collect(
+        guardians: Array<BaseWallet>,
+        data: RecoveryData,
+    ): Promise<Array<GuardianSignature>> {
+        const signatures = await Promise.all(
+            guardians.map((guardian) => this.sign(guardian, data)),
+        );
+
+        return sortGuardianSignatures(signatures);
+    }
+
+    protected async sendStart(
+        data: RecoveryData,
+        signatures: Array<GuardianSignature>,
+    ): Promise<types.TransactionResponse> {
+        const threshold = await this.module.getThreshold(
+            data.recoveringAddress,
+        );
+        if (BigInt(signatures.length) < threshold) {
+            throw new Error(
+                `${signatures.length} guardian signatures, ${threshold} required`,
+            );
+        }
+
+        return await this.module.startRecovery(data, signatures);
+    }
+}
+
+export class CloudRecoveryClient extends RecoveryClient {
+    public async configure(
+        builder: AGWTransactionBuilder,
+        account: Contract,
+        guardian: string,
+    ): Promise<types.TransactionResponse> {
+        return await this.configureModule(
+            builder,
+            account,
+            encodeCloudRecoveryInitData(guardian),
+            await this.module.updateGuardian.populateTransaction(guardian),
+        );
+    }
+
+    protected async sendStart(
+        data: RecoveryData,
+        signatures: Array<GuardianSignature>,
+    ): Promise<types.TransactionResponse> {
+        const guardian = await this.module.getGuardian(data.recoveringAddress);
+        const signature = signatures.find(
+            (entry) => getAddress(entry.guardian) === guardian,
+        );
+        if (!signature) {
+            throw new Error(`No signature of the cloud guardian ${guardian}`);
+        }
+
+        return await this.module.startRecovery(data, signature.signature);
+    }
+}
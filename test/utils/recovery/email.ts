@@ -0,0 +1,210 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BytesLike } from 'ethers';
+import { AbiCoder, ZeroAddress, getAddress, keccak256 } from 'ethers';
+
+// Matchers of SubjectUtils the templates use
+const ETH_ADDR_MATCHER = '{ethAddr}';
+const STRING_MATCHER = '{string}';
+
+// EmailRecoverySubjectHandler.acceptanceSubjectTemplates
+export const ACCEPTANCE_SUBJECT_TEMPLATES: Array<Array<string>> = [
+    ['Accept', 'guardian', 'request', 'for', ETH_ADDR_MATCHER],
+];
+
+// EmailRecoverySubjectHandler.recoverySubjectTemplates
+export const RECOVERY_SUBJECT_TEMPLATES: Array<Array<string>> = [
+    [
+        'Recover',
+        'account',
+        ETH_ADDR_MATCHER,
+        'via',
+        'recovery',
+        'module',
+        ETH_ADDR_MATCHER,
+        'to',
+        'owner',
+        STRING_MATCHER,
+    ],
+];
+
+export type AcceptanceSubject = {
+    account: string;
+};
+
+export type RecoverySubject = {
+    account: string;
+    recoveryModule: string;
+    // keccak256 of the new owner bytes, completeRecovery is called with them
+    calldataHash: string;
+};
+
+// Subject of a guardian accepting to guard the account
+export function renderAcceptanceSubject(
+    account: string,
+    templateIdx = 0,
+): string {
+    const template = getTemplate(ACCEPTANCE_SUBJECT_TEMPLATES, templateIdx);
+
+    return renderSubject(template, [account]);
+}
+
+// Subject of a guardian approving the recovery of the account to newOwner
+export function renderRecoverySubject(
+    account: string,
+    recoveryModule: string,
+    newOwner: BytesLike,
+    templateIdx = 0,
+): string {
+    const template = getTemplate(RECOVERY_SUBJECT_TEMPLATES, templateIdx);
+
+    return renderSubject(template, [
+        account,
+        recoveryModule,
+        keccak256(newOwner),
+    ]);
+}
+
+// Subject params of an acceptance email, as the handler decodes them
+export function encodeAcceptanceSubjectParams(
+    subject: AcceptanceSubject,
+): Array<string> {
+    return [AbiCoder.defaultAbiCoder().encode(['address'], [subject.account])];
+}
+
+// Subject params of a recovery email, as the handler decodes them
+export function encodeRecoverySubjectParams(
+    subject: RecoverySubject,
+): Array<string> {
+    const coder = AbiCoder.defaultAbiCoder();
+
+    return [
+        coder.encode(['address'], [subject.account]),
+        coder.encode(['address'], [subject.recoveryModule]),
+        coder.encode(['string'], [subject.calldataHash]),
+    ];
+}
+
+/**
+ * Parses an acceptance subject
+ * @dev The handler accepts any account, acceptGuardian checks it
+ */
+export function parseAcceptanceSubject(
+    subject: string,
+    templateIdx = 0,
+): AcceptanceSubject {
+    const [account] = parseSubject(
+        subject,
+        getTemplate(ACCEPTANCE_SUBJECT_TEMPLATES, templateIdx),
+    );
+
+    return { account };
+}
+
+/**
+ * Parses a recovery subject with the checks of validateRecoverySubject
+ * @param expectedRecoveryModule - emailRecoveryModule of the recovery manager
+ */
+export function parseRecoverySubject(
+    subject: string,
+    expectedRecoveryModule: string,
+    templateIdx = 0,
+): RecoverySubject {
+    const [account, recoveryModule, calldataHash] = parseSubject(
+        subject,
+        getTemplate(RECOVERY_SUBJECT_TEMPLATES, templateIdx),
+    );
+
+    // StringUtils.hexToBytes32 only reads lowercase hex
+    if (!/^0x[0-9a-f]{64}$/.test(calldataHash)) {
+        throw new Error(`Invalid new owner hash ${calldataHash}`);
+    }
+    if (account === ZeroAddress) {
+        throw new Error('InvalidAccount');
+    }
+    if (
+        recoveryModule === ZeroAddress ||
+        recoveryModule !== getAddress(expectedRecoveryModule)
+    ) {
+        throw new Error('InvalidRecoveryModule');
+    }
+
+    return { account, recoveryModule, calldataHash };
+}
+
+// Whether the subject approved the recovery to newOwner
+export function isRecoveryTo(
+    subject: RecoverySubject,
+    newOwner: BytesLike,
+): boolean {
+    return subject.calldataHash === keccak256(newOwner);
+}
+
+function getTemplate(
+    templates: Array<Array<string>>,
+    templateIdx: number,
+): Array<string> {
+    const template = templates[templateIdx];
+    if (!template) {
+        throw new Error(`No subject template ${templateIdx}`);
+    }
+    return template;
+}
+
+/**
+ * Joins the template parts with single spaces, as computeExpectedSubject does
+ * @dev Addresses are rendered checksummed, like addressToChecksumHexString
+ */
+function renderSubject(
+    template: Array<string>,
+    params: Array<string>,
+): string {
+    let paramIdx = 0;
+
+    return template
+        .map((part) => {
+            if (part === ETH_ADDR_MATCHER) {
+                return getAddress(params[paramIdx++]);
+            }
+            if (part === STRING_MATCHER) {
+                return params[paramIdx++];
+            }
+            return part;
+        })
+        .join(' ');
+}
+
+/**
+ * Matches the subject against the template, word by word
+ * @dev The subject must equal the rendered subject of its params, so
+ * addresses must be checksummed and words separated by single spaces
+ */
+function parseSubject(
+    subject: string,
+    template: Array<string>,
+): Array<string> {
+    const words = subject.split(' ');
+    if (words.length !== template.length) {
+        throw new Error('InvalidSubjectParams');
+    }
+
+    const params: Array<string> = [];
+    template.forEach((part, i) => {
+        const word = words[i];
+        if (part === ETH_ADDR_MATCHER) {
+            const isAddress = /^0x[0-9a-fA-F]{40}$/.test(word);
+            if (!isAddress || getAddress(word.toLowerCase()) !== word) {
+                throw new Error(`Invalid address ${word} in subject`);
+            }
+            params.push(word);
+        } else if (part === STRING_MATCHER) {
+            params.push(word);
+        } else if (word !== part) {
+            throw new Error(`Expected "${part}" in subject, got "${word}"`);
+        }
+    });
+    return params;
+}
@@ -0,0 +1,268 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BaseWallet, BytesLike } from 'ethers';
+import { Interface, getAddress, hexlify, recoverAddress } from 'ethers';
+import type { Provider, types } from 'zksync-ethers';
+import { Contract } from 'zksync-ethers';
+
+import type { GuardianSignature, RecoveryData } from './client';
+
+const ERC1271_INTERFACE = new Interface([
+    'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)',
+]);
+
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+// RecoveryData and the hash guardians sign, without chain access
+export type RecoveryRequest = {
+    module: string;
+    data: RecoveryData;
+    eip712Hash: string;
+};
+
+// JSON form of the aggregator, bigints are decimal strings
+export type SerializedRecoveryRequest = {
+    module: string;
+    data: {
+        recoveringAddress: string;
+        newOwner: string;
+        nonce: string;
+    };
+    eip712Hash: string;
+    signatures: Array<GuardianSignature>;
+};
+
+export async function createRecoveryRequest(
+    module: Contract,
+    accountAddress: string,
+    newOwner: BytesLike,
+): Promise<RecoveryRequest> {
+    const data: RecoveryData = {
+        recoveringAddress: getAddress(accountAddress),
+        newOwner: hexlify(newOwner),
+        nonce: await module.recoveryNonces(accountAddress),
+    };
+
+    return {
+        module: await module.getAddress(),
+        data,
+        eip712Hash: await module.getEip712Hash(data),
+    };
+}
+
+// Signs the request offline, the hash is signed as is
+export function signRecoveryRequest(
+    guardian: BaseWallet,
+    request: RecoveryRequest,
+): GuardianSignature {
+    return {
+        guardian: guardian.address,
+        signature: guardian.signingKey.sign(request.eip712Hash).serialized,
+    };
+}
+
+// SocialRecoveryModule requires guardians in ascending order
+export function sortGuardianSignatures(
+    signatures: Array<GuardianSignature>,
+): Array<GuardianSignature> {
+    return [...signatures].sort((a, b) =>
+        BigInt(a.guardian) < BigInt(b.guardian) ? -1 : 1,
+    );
+}
+
+/**
+ * Collects the signatures of a social recovery request from its guardians
+ * @dev Checks each signature like SignatureChecker does, so a submitted
+ * recovery only fails if the config or the nonce changed since
+ */
+export class GuardianSignatureAggregator {
+    private provider: Provider;
+    private module: Contract;
+    private request: RecoveryRequest;
+    private signatures: Map<string, GuardianSignature> = new Map();
+
+    constructor(
+        provider: Provider,
+        module: Contract,
+        request: RecoveryRequest,
+    ) {
+        this.provider = provider;
+        this.module = module;
+        this.request = request;
+    }
+
+    // Restores an exported aggregator, checking the hash against the module
+    public static async fromJSON(
+        provider: Provider,
+        module: Contract,
+        json: string,
+    ): Promise<GuardianSignatureAggregator> {
+        const serialized: SerializedRecoveryRequest = JSON.parse(json);
+        if (getAddress(serialized.module) !== (await module.getAddress())) {
+            throw new Error(
+                `Recovery request is for the module ${serialized.module}`,
+            );
+        }
+
+        const data: RecoveryData = {
+            ...serialized.data,
+            nonce: BigInt(serialized.data.nonce),
+        };
+        const eip712Hash = await module.getEip712Hash(data);
+        if (eip712Hash !== serialized.eip712Hash) {
+            throw new Error('Recovery request hash does not match its data');
+        }
+
+        const aggregator = new GuardianSignatureAggregator(provider, module, {
+            module: serialized.module,
+            data,
+            eip712Hash,
+        });
+        for (const signature of serialized.signatures) {
+            await aggregator.add(signature);
+        }
+        return aggregator;
+    }
+
+    public getRequest(): RecoveryRequest {
+        return this.request;
+    }
+
+    // Ordered as startRecovery expects them
+    public getSignatures(): Array<GuardianSignature> {
+        return sortGuardianSignatures([...this.signatures.values()]);
+    }
+
+    /**
+     * Adds a guardian's signature
+     * @dev A second valid signature of the same guardian replaces the first
+     */
+    public async add(signature: GuardianSignature): Promise<void> {
+        const guardian = getAddress(signature.guardian);
+
+        const guardians = await this.readGuardians();
+        if (!guardians.includes(guardian)) {
+            throw new Error(`${guardian} is not a guardian of the account`);
+        }
+        if (!(await this.isValidSignature(guardian, signature.signature))) {
+            throw new Error(`Invalid signature of the guardian ${guardian}`);
+        }
+
+        this.signatures.set(guardian, {
+            guardian,
+            signature: signature.signature,
+        });
+    }
+
+    // Guardians whose signatures are still missing
+    public async missingGuardians(): Promise<Array<string>> {
+        const guardians = await this.readGuardians();
+
+        return guardians.filter((guardian) => !this.signatures.has(guardian));
+    }
+
+    public async isComplete(): Promise<boolean> {
+        return (
+            BigInt(this.validSignatures(await this.readGuardians()).length) >=
+            (await this.module.getThreshold(
+                this.request.data.recoveringAddress,
+            ))
+        );
+    }
+
+    /**
+     * Starts the recovery with the collected signatures
+     * @dev Guardians removed since they signed are left out, a moved nonce
+     * needs a new request
+     */
+    public async submit(): Promise<types.TransactionResponse> {
+        const { recoveringAddress, nonce } = this.request.data;
+        const [guardians, threshold, currentNonce] = await Promise.all([
+            this.readGuardians(),
+            this.module.getThreshold(recoveringAddress),
+            this.module.recoveryNonces(recoveringAddress),
+        ]);
+
+        if (currentNonce !== nonce) {
+            throw new Error(
+                `Recovery request was signed for nonce ${nonce}, the account is at ${currentNonce}`,
+            );
+        }
+        const signatures = this.validSignatures(guardians);
+        if (BigInt(signatures.length) < threshold) {
+            throw new Error(
+                `${signatures.length} guardian signatures, ${threshold} required`,
+            );
+        }
+
+        return await this.module.startRecovery(this.request.data, signatures);
+    }
+
+    public toJSON(): SerializedRecoveryRequest {
+        return {
+            module: this.request.module,
+            data: {
+                ...this.request.data,
+                nonce: this.request.data.nonce.toString(),
+            },
+            eip712Hash: this.request.eip712Hash,
+            signatures: this.getSignatures(),
+        };
+    }
+
+    public export(): string {
+        return JSON.stringify(this.toJSON());
+    }
+
+    private async readGuardians(): Promise<Array<string>> {
+        return await this.module.getGuardians(
+            this.request.data.recoveringAddress,
+        );
+    }
+
+    private validSignatures(
+        guardians: Array<string>,
+    ): Array<GuardianSignature> {
+        return this.getSignatures().filter((signature) =>
+            guardians.includes(signature.guardian),
+        );
+    }
+
+    // ECDSA for EOAs, ERC-1271 for contract guardians
+    private async isValidSignature(
+        guardian: string,
+        signature: string,
+    ): Promise<boolean> {
+        try {
+            if (
+                recoverAddress(this.request.eip712Hash, signature) === guardian
+            ) {
+                return true;
+            }
+        } catch {
+            // Not an ECDSA signature, a contract guardian may still accept it
+        }
+
+        if ((await this.provider.getCode(guardian)) === '0x') {
+            return false;
+        }
+        const guardianContract = new Contract(
+            guardian,
+            ERC1271_INTERFACE,
+            this.provider,
+        );
+        try {
+            return (
+                (await guardianContract.isValidSignature(
+                    this.request.eip712Hash,
+                    signature,
+                )) === ERC1271_MAGIC_VALUE
+            );
+        } catch {
+            return false;
+        }
+    }
+}
@@ -0,0 +1,324 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BigNumberish, Interface, ParamType } from 'ethers';
+import { formatEther, getAddress } from 'ethers';
+import type { Contract, Provider } from 'zksync-ethers';
+
+import type {
+    LimitState,
+    SessionSpec,
+    SessionState,
+    UsageLimit,
+} from './session';
+import {
+    Condition,
+    LimitType,
+    SessionStatus,
+    getSessionHash,
+    sessionStateFromResult,
+} from './session';
+
+// Dates end at 8.64e15 ms, in the year 275760
+const MAX_DATE_SECONDS = 8_640_000_000_000n;
+
+export type LimitReport = {
+    limitType: LimitType;
+    // Zero if Unlimited
+    limit: bigint;
+    // Null if Unlimited, maxValuePerUse and constraints still apply
+    remaining: bigint | null;
+    // Start of the next period if Allowance, the remaining amount is reset then
+    resetsAt: bigint | null;
+};
+
+export type TransferReport = {
+    target: string;
+    maxValuePerUse: bigint;
+    value: LimitReport;
+};
+
+export type ConstraintReport = {
+    // Calldata word of the parameter
+    index: bigint;
+    condition: Condition;
+    refValue: string;
+    // Limits the sum of the parameter
+    usage: LimitReport;
+};
+
+export type CallReport = {
+    target: string;
+    selector: string;
+    maxValuePerUse: bigint;
+    value: LimitReport;
+    constraints: Array<ConstraintReport>;
+};
+
+export type SessionReport = {
+    sessionHash: string;
+    status: SessionStatus;
+    expiresAt: bigint;
+    expired: boolean;
+    // Only sponsored transactions count against the fee limit
+    fees: LimitReport;
+    transfers: Array<TransferReport>;
+    calls: Array<CallReport>;
+};
+
+// Reads what a session can still do, for wallet UIs
+export class SessionInspector {
+    private provider: Provider;
+    private sessionValidator: Contract;
+
+    constructor(provider: Provider, sessionValidator: Contract) {
+        this.provider = provider;
+        this.sessionValidator = sessionValidator;
+    }
+
+    public async state(
+        account: string,
+        spec: SessionSpec,
+    ): Promise<SessionState> {
+        return sessionStateFromResult(
+            await this.sessionValidator.sessionState(account, spec),
+        );
+    }
+
+    /**
+     * Reports the session of the account at the latest block
+     * @dev getState computes allowances with the block timestamp, so reset
+     * times are relative to the same block
+     */
+    public async report(
+        account: string,
+        spec: SessionSpec,
+    ): Promise<SessionReport> {
+        const [state, block] = await Promise.all([
+            this.state(account, spec),
+            this.provider.getBlock('latest'),
+        ]);
+
+        return buildSessionReport(spec, state, block.timestamp);
+    }
+}
+
+// Joins the LimitState arrays of SessionLib.getState with the spec they came from
+export function buildSessionReport(
+    spec: SessionSpec,
+    state: SessionState,
+    timestamp: BigNumberish,
+): SessionReport {
+    if (
+        state.transferValue.length !== spec.transferPolicies.length ||
+        state.callValue.length !== spec.callPolicies.length
+    ) {
+        throw new Error('Session state does not match the session spec');
+    }
+
+    const now = BigInt(timestamp);
+
+    const transfers = spec.transferPolicies.map((policy, i) => {
+        expectLimitState(state.transferValue[i], policy.target);
+
+        return {
+            target: getAddress(policy.target),
+            maxValuePerUse: policy.maxValuePerUse,
+            value: limitReport(
+                policy.valueLimit,
+                state.transferValue[i].remaining,
+                now,
+            ),
+        };
+    });
+
+    // callParams only has entries for constraints that are not Unlimited
+    let paramIndex = 0;
+    const calls = spec.callPolicies.map((policy, i) => {
+        expectLimitState(state.callValue[i], policy.target, policy.selector);
+
+        const constraints = policy.constraints.map((constraint) => {
+            let remaining = 0n;
+            if (constraint.limit.limitType !== LimitType.Unlimited) {
+                const paramState = state.callParams[paramIndex++];
+                if (!paramState) {
+                    throw new Error(
+                        'Session state does not match the session spec',
+                    );
+                }
+                expectLimitState(
+                    paramState,
+                    policy.target,
+                    policy.selector,
+                    constraint.index,
+                );
+                remaining = paramState.remaining;
+            }
+
+            return {
+                index: constraint.index,
+                condition: constraint.condition,
+                refValue: constraint.refValue,
+                usage: limitReport(constraint.limit, remaining, now),
+            };
+        });
+
+        return {
+            target: getAddress(policy.target),
+            selector: policy.selector,
+            maxValuePerUse: policy.maxValuePerUse,
+            value: limitReport(
+                policy.valueLimit,
+                state.callValue[i].remaining,
+                now,
+            ),
+            constraints,
+        };
+    });
+
+    if (paramIndex !== state.callParams.length) {
+        throw new Error('Session state does not match the session spec');
+    }
+
+    return {
+        sessionHash: getSessionHash(spec),
+        status: state.status,
+        expiresAt: spec.expiresAt,
+        expired: now > spec.expiresAt,
+        fees: limitReport(spec.feeLimit, state.feesRemaining, now),
+        transfers,
+        calls,
+    };
+}
+
+/**
+ * Formats the report line by line, values in ETH and parameters as integers
+ * @dev Reference values are printed as the raw words they are compared with
+ * @param interfaces - Used to name the selectors of the call policies
+ */
+export function formatSessionReport(
+    report: SessionReport,
+    interfaces: Array<Interface> = [],
+): string {
+    const lines = [
+        `Session ${report.sessionHash}`,
+        `  status: ${SessionStatus[report.status]}${report.expired ? ' (expired)' : ''}`,
+        `  expires at: ${formatTimestamp(report.expiresAt)}`,
+        `  fees: ${formatLimit(report.fees, formatEther)}`,
+    ];
+
+    for (const transfer of report.transfers) {
+        lines.push(
+            `  transfer to ${transfer.target}: ${formatLimit(transfer.value, formatEther)}, at most ${formatEther(transfer.maxValuePerUse)} per use`,
+        );
+    }
+
+    for (const call of report.calls) {
+        const fragment = interfaces
+            .map((iface) => iface.getFunction(call.selector))
+            .find((fragment) => fragment);
+        const name = fragment ? fragment.format() : call.selector;
+
+        lines.push(
+            `  call ${name} on ${call.target}: ${formatLimit(call.value, formatEther)}, at most ${formatEther(call.maxValuePerUse)} per use`,
+        );
+        for (const constraint of call.constraints) {
+            const param = fragment
+                ? paramName(fragment.inputs, constraint.index)
+                : `word ${constraint.index}`;
+            const condition =
+                constraint.condition === Condition.Unconstrained
+                    ? 'any value'
+                    : `${Condition[constraint.condition]} ${constraint.refValue}`;
+
+            lines.push(
+                `    ${param}: ${condition}, ${formatLimit(constraint.usage, String)}`,
+            );
+        }
+    }
+
+    return lines.join('\n');
+}
+
+function limitReport(
+    limit: UsageLimit,
+    remaining: bigint,
+    now: bigint,
+): LimitReport {
+    switch (limit.limitType) {
+        case LimitType.Lifetime:
+            return {
+                limitType: limit.limitType,
+                limit: limit.limit,
+                remaining,
+                resetsAt: null,
+            };
+        case LimitType.Allowance:
+            return {
+                limitType: limit.limitType,
+                limit: limit.limit,
+                remaining,
+                resetsAt: (now / limit.period + 1n) * limit.period,
+            };
+        default:
+            return {
+                limitType: LimitType.Unlimited,
+                limit: 0n,
+                remaining: null,
+                resetsAt: null,
+            };
+    }
+}
+
+// getState reports limits in spec order, anything else is a different spec
+function expectLimitState(
+    limitState: LimitState,
+    target: string,
+    selector?: string,
+    index?: bigint,
+): void {
+    if (
+        getAddress(limitState.target) !== getAddress(target) ||
+        (selector !== undefined &&
+            limitState.selector.toLowerCase() !== selector.toLowerCase()) ||
+        (index !== undefined && limitState.index !== index)
+    ) {
+        throw new Error('Session state does not match the session spec');
+    }
+}
+
+function formatLimit(
+    report: LimitReport,
+    format: (value: bigint) => string,
+): string {
+    if (report.remaining === null) {
+        return 'unlimited';
+    }
+
+    const remaining = `${format(report.remaining)} of ${format(report.limit)} left`;
+    if (report.resetsAt === null) {
+        return remaining;
+    }
+    return `${remaining}, resets at ${formatTimestamp(report.resetsAt)}`;
+}
+
+function formatTimestamp(timestamp: bigint): string {
+    if (timestamp > MAX_DATE_SECONDS) {
+        return 'never';
+    }
+    return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+// Names the parameter at a calldata word when no tuple or array comes first
+function paramName(inputs: ReadonlyArray<ParamType>, index: bigint): string {
+    const head = inputs.slice(0, Number(index) + 1);
+    if (
+        index < BigInt(inputs.length) &&
+        head.every((input) => !input.isTuple() && !input.isArray())
+    ) {
+        return inputs[Number(index)].name || `word ${index}`;
+    }
+    return `word ${index}`;
+}
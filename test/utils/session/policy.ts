@@ -0,0 +1,228 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type {
+    BigNumberish,
+    FunctionFragment,
+    InterfaceAbi,
+    ParamType,
+} from 'ethers';
+import { AbiCoder, Interface, ZeroHash, getAddress } from 'ethers';
+
+import type { CallSpec, Constraint, UsageLimit } from './session';
+import { Condition, unlimitedLimit } from './session';
+
+// Position of a static parameter in the calldata
+export type ParamWord = {
+    // Constraint index, the word at 4 + index * 32
+    index: bigint;
+    type: ParamType;
+};
+
+// Conditions that compare words as unsigned integers
+const ORDERING_CONDITIONS = [
+    Condition.Greater,
+    Condition.Less,
+    Condition.GreaterOrEqual,
+    Condition.LessOrEqual,
+];
+
+/**
+ * Builds a SessionLib.CallSpec from a function of the target's ABI
+ * @dev Parameters are named as in the ABI, with dots for static tuple members
+ * and fixed array elements, e.g. `order.amount` or `order.mins.1`
+ */
+export class CallPolicyBuilder {
+    private target: string;
+    private fragment: FunctionFragment;
+    private maxValue: bigint = 0n;
+    private valueUsage: UsageLimit = unlimitedLimit();
+    private constraints: Array<Constraint> = [];
+
+    constructor(
+        abi: Interface | InterfaceAbi,
+        target: string,
+        functionName: string,
+    ) {
+        const iface = abi instanceof Interface ? abi : new Interface(abi);
+        const fragment = iface.getFunction(functionName);
+        if (!fragment) {
+            throw new Error(`Function ${functionName} is not in the ABI`);
+        }
+
+        this.target = getAddress(target);
+        this.fragment = fragment;
+    }
+
+    public maxValuePerUse(value: BigNumberish): this {
+        this.maxValue = BigInt(value);
+        return this;
+    }
+
+    public valueLimit(limit: UsageLimit): this {
+        this.valueUsage = limit;
+        return this;
+    }
+
+    /**
+     * Adds a constraint comparing the parameter with a value of its ABI type
+     * @param limit - Limits the sum of the parameter over the session
+     */
+    public where(
+        param: string,
+        condition: Condition,
+        value: unknown,
+        limit: UsageLimit = unlimitedLimit(),
+    ): this {
+        const word = this.resolve(param);
+
+        if (
+            word.type.baseType.startsWith('int') &&
+            ORDERING_CONDITIONS.includes(condition)
+        ) {
+            throw new Error(
+                `Parameter ${param} is signed, SessionLib compares words as unsigned`,
+            );
+        }
+
+        this.constraints.push({
+            condition,
+            index: word.index,
+            refValue: AbiCoder.defaultAbiCoder().encode([word.type], [value]),
+            limit,
+        });
+        return this;
+    }
+
+    // Limits the sum of the parameter without comparing it to a value
+    public limit(param: string, limit: UsageLimit): this {
+        const word = this.resolve(param);
+
+        this.constraints.push({
+            condition: Condition.Unconstrained,
+            index: word.index,
+            refValue: ZeroHash,
+            limit,
+        });
+        return this;
+    }
+
+    /**
+     * Resolves a parameter to its calldata word
+     * @dev Dynamic parameters only have an offset in the head, their
+     * content can not be reached by a fixed index
+     */
+    public resolve(param: string): ParamWord {
+        const path = param.split('.');
+
+        let params: ReadonlyArray<ParamType> = this.fragment.inputs;
+        let index = 0n;
+        for (let depth = 0; depth < path.length; depth++) {
+            const position = findParam(params, path[depth]);
+            if (position === -1) {
+                throw new Error(
+                    `Parameter ${param} is not an input of ${this.fragment.format()}`,
+                );
+            }
+
+            for (let i = 0; i < position; i++) {
+                index += headWords(params[i]);
+            }
+
+            const type = params[position];
+            if (isDynamic(type)) {
+                throw new Error(
+                    `Parameter ${param} has dynamic type ${type.format()} and can not be constrained by word offset`,
+                );
+            }
+
+            if (depth === path.length - 1) {
+                if (type.isTuple() || type.isArray()) {
+                    throw new Error(
+                        `Parameter ${param} spans multiple words, constrain one of its members`,
+                    );
+                }
+                return { index, type };
+            }
+
+            params = children(type, param);
+        }
+
+        throw new Error(`Parameter ${param} is empty`);
+    }
+
+    public build(): CallSpec {
+        return {
+            target: this.target,
+            selector: this.fragment.selector,
+            maxValuePerUse: this.maxValue,
+            valueLimit: this.valueUsage,
+            constraints: [...this.constraints],
+        };
+    }
+}
+
+// Finds a parameter by name, or by position for unnamed ones and array elements
+function findParam(params: ReadonlyArray<ParamType>, name: string): number {
+    const named = params.findIndex((param) => param.name === name);
+    if (named !== -1) {
+        return named;
+    }
+
+    const position = Number(name);
+    if (
+        Number.isInteger(position) &&
+        position >= 0 &&
+        position < params.length
+    ) {
+        return position;
+    }
+
+    return -1;
+}
+
+// Members of a static tuple, or elements of a fixed array
+function children(type: ParamType, param: string): ReadonlyArray<ParamType> {
+    if (type.isTuple()) {
+        return type.components;
+    }
+    if (type.isArray()) {
+        return new Array(type.arrayLength).fill(type.arrayChildren);
+    }
+
+    throw new Error(`Parameter ${param} has no members`);
+}
+
+function isDynamic(type: ParamType): boolean {
+    if (type.baseType === 'bytes' || type.baseType === 'string') {
+        return true;
+    }
+    if (type.isArray()) {
+        return type.arrayLength === -1 || isDynamic(type.arrayChildren);
+    }
+    if (type.isTuple()) {
+        return type.components.some(isDynamic);
+    }
+
+    return false;
+}
+
+// Words a parameter takes in the head of the encoding
+function headWords(type: ParamType): bigint {
+    if (isDynamic(type)) {
+        return 1n;
+    }
+    if (type.isArray()) {
+        return BigInt(type.arrayLength) * headWords(type.arrayChildren);
+    }
+    if (type.isTuple()) {
+        return type.components.reduce(
+            (words, component) => words + headWords(component),
+            0n,
+        );
+    }
+
+    return 1n;
+}
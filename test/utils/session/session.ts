@@ -0,0 +1,353 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BaseWallet, BigNumberish, BytesLike, Result } from 'ethers';
+import { AbiCoder, dataLength, dataSlice, getAddress, keccak256 } from 'ethers';
+import type { Contract, Provider, types } from 'zksync-ethers';
+
+import type { AccountSigner } from '../signers';
+import { K1Signer } from '../signers';
+import { orderHookData } from '../signatures';
+import { AGWTransactionBuilder } from '../transactions';
+import type { FeeOverrides } from '../transactions';
+
+// Mirrors SessionLib.LimitType
+export enum LimitType {
+    Unlimited = 0,
+    Lifetime = 1,
+    Allowance = 2,
+}
+
+// Mirrors SessionLib.Condition
+export enum Condition {
+    Unconstrained = 0,
+    Equal = 1,
+    Greater = 2,
+    Less = 3,
+    GreaterOrEqual = 4,
+    LessOrEqual = 5,
+    NotEqual = 6,
+}
+
+// Mirrors SessionLib.Status
+export enum SessionStatus {
+    NotInitialized = 0,
+    Active = 1,
+    Closed = 2,
+}
+
+export type UsageLimit = {
+    limitType: LimitType;
+    // Ignored if limitType is Unlimited
+    limit: bigint;
+    // Ignored if limitType is not Allowance
+    period: bigint;
+};
+
+export type Constraint = {
+    condition: Condition;
+    // Calldata word to check, read from 4 + index * 32
+    index: bigint;
+    refValue: string;
+    limit: UsageLimit;
+};
+
+export type CallSpec = {
+    target: string;
+    selector: string;
+    maxValuePerUse: bigint;
+    valueLimit: UsageLimit;
+    constraints: Array<Constraint>;
+};
+
+export type TransferSpec = {
+    target: string;
+    maxValuePerUse: bigint;
+    valueLimit: UsageLimit;
+};
+
+export type SessionSpec = {
+    signer: string;
+    expiresAt: bigint;
+    feeLimit: UsageLimit;
+    callPolicies: Array<CallSpec>;
+    transferPolicies: Array<TransferSpec>;
+};
+
+export type LimitState = {
+    remaining: bigint;
+    target: string;
+    // Zero for transfer value
+    selector: string;
+    // Zero for transfer and call value
+    index: bigint;
+};
+
+export type SessionState = {
+    status: SessionStatus;
+    feesRemaining: bigint;
+    transferValue: Array<LimitState>;
+    callValue: Array<LimitState>;
+    callParams: Array<LimitState>;
+};
+
+export function unlimitedLimit(): UsageLimit {
+    return { limitType: LimitType.Unlimited, limit: 0n, period: 0n };
+}
+
+export function lifetimeLimit(limit: BigNumberish): UsageLimit {
+    return { limitType: LimitType.Lifetime, limit: BigInt(limit), period: 0n };
+}
+
+// Resets every `period` seconds, counted from the unix epoch
+export function allowanceLimit(
+    limit: BigNumberish,
+    period: BigNumberish,
+): UsageLimit {
+    if (BigInt(period) === 0n) {
+        throw new Error('Allowance limit with a zero period');
+    }
+
+    return {
+        limitType: LimitType.Allowance,
+        limit: BigInt(limit),
+        period: BigInt(period),
+    };
+}
+
+const USAGE_LIMIT_TYPE = 'tuple(uint8 limitType, uint256 limit, uint256 period)';
+const CONSTRAINT_TYPE = `tuple(uint8 condition, uint64 index, bytes32 refValue, ${USAGE_LIMIT_TYPE} limit)`;
+const CALL_SPEC_TYPE = `tuple(address target, bytes4 selector, uint256 maxValuePerUse, ${USAGE_LIMIT_TYPE} valueLimit, ${CONSTRAINT_TYPE}[] constraints)`;
+const TRANSFER_SPEC_TYPE = `tuple(address target, uint256 maxValuePerUse, ${USAGE_LIMIT_TYPE} valueLimit)`;
+export const SESSION_SPEC_TYPE = `tuple(address signer, uint256 expiresAt, ${USAGE_LIMIT_TYPE} feeLimit, ${CALL_SPEC_TYPE}[] callPolicies, ${TRANSFER_SPEC_TYPE}[] transferPolicies)`;
+
+// abi.encode(spec), as SessionKeyValidator.addValidationKey decodes it
+export function encodeSession(spec: SessionSpec): string {
+    return AbiCoder.defaultAbiCoder().encode([SESSION_SPEC_TYPE], [spec]);
+}
+
+export function decodeSession(data: BytesLike): SessionSpec {
+    const [spec] = AbiCoder.defaultAbiCoder().decode([SESSION_SPEC_TYPE], data);
+    return sessionFromResult(spec);
+}
+
+// keccak256(abi.encode(spec)), the key of the session in SessionKeyValidator
+export function getSessionHash(spec: SessionSpec): string {
+    return keccak256(encodeSession(spec));
+}
+
+// Converts a decoded SessionSpec, e.g. from a SessionCreated event
+export function sessionFromResult(spec: Result): SessionSpec {
+    return {
+        signer: getAddress(spec.signer),
+        expiresAt: BigInt(spec.expiresAt),
+        feeLimit: usageLimitFromResult(spec.feeLimit),
+        callPolicies: Array.from(spec.callPolicies, (policy: Result) => ({
+            target: getAddress(policy.target),
+            selector: policy.selector,
+            maxValuePerUse: BigInt(policy.maxValuePerUse),
+            valueLimit: usageLimitFromResult(policy.valueLimit),
+            constraints: Array.from(
+                policy.constraints,
+                (constraint: Result) => ({
+                    condition: Number(constraint.condition),
+                    index: BigInt(constraint.index),
+                    refValue: constraint.refValue,
+                    limit: usageLimitFromResult(constraint.limit),
+                }),
+            ),
+        })),
+        transferPolicies: Array.from(
+            spec.transferPolicies,
+            (policy: Result) => ({
+                target: getAddress(policy.target),
+                maxValuePerUse: BigInt(policy.maxValuePerUse),
+                valueLimit: usageLimitFromResult(policy.valueLimit),
+            }),
+        ),
+    };
+}
+
+// Converts the result of SessionKeyValidator.sessionState
+export function sessionStateFromResult(state: Result): SessionState {
+    const limitStates = (limits: Result): Array<LimitState> =>
+        Array.from(limits, (limit: Result) => ({
+            remaining: BigInt(limit.remaining),
+            target: getAddress(limit.target),
+            selector: limit.selector,
+            index: BigInt(limit.index),
+        }));
+
+    return {
+        status: Number(state.status),
+        feesRemaining: BigInt(state.feesRemaining),
+        transferValue: limitStates(state.transferValue),
+        callValue: limitStates(state.callValue),
+        callParams: limitStates(state.callParams),
+    };
+}
+
+/**
+ * Returns the transaction that opens the session, sent by the account itself
+ * @dev createSession rejects an Unlimited fee limit, so it is checked here first
+ */
+export async function createSessionTx(
+    sessionValidator: Contract,
+    spec: SessionSpec,
+): Promise<types.TransactionLike> {
+    if (spec.feeLimit.limitType === LimitType.Unlimited) {
+        throw new Error('Unlimited fee allowance is not safe');
+    }
+
+    return {
+        to: await sessionValidator.getAddress(),
+        value: 0,
+        data: sessionValidator.interface.encodeFunctionData('createSession', [
+            spec,
+        ]),
+    };
+}
+
+export function getPeriodId(
+    limit: UsageLimit,
+    timestamp: BigNumberish,
+): bigint {
+    if (limit.limitType !== LimitType.Allowance) {
+        return 0n;
+    }
+    if (limit.period === 0n) {
+        throw new Error('Allowance limit with a zero period');
+    }
+
+    return BigInt(timestamp) / limit.period;
+}
+
+/**
+ * Returns the periodIds SessionLib.validate expects for the transaction
+ * @dev [0] is the fee limit, [1] the value limit, [2:] the call constraints
+ */
+export function getPeriodIds(
+    spec: SessionSpec,
+    tx: types.TransactionLike,
+    timestamp: BigNumberish,
+): Array<bigint> {
+    if (!tx.to) {
+        throw new Error('Session transactions need a target');
+    }
+    const target = getAddress(tx.to);
+    const data = tx.data ?? '0x';
+
+    const periodIds = [getPeriodId(spec.feeLimit, timestamp)];
+
+    if (dataLength(data) >= 4) {
+        const selector = dataSlice(data, 0, 4);
+        const callPolicy = spec.callPolicies.find(
+            (policy) =>
+                getAddress(policy.target) === target &&
+                policy.selector.toLowerCase() === selector,
+        );
+        if (!callPolicy) {
+            throw new Error(
+                `No call policy for selector ${selector} of ${target}`,
+            );
+        }
+
+        periodIds.push(getPeriodId(callPolicy.valueLimit, timestamp));
+        for (const constraint of callPolicy.constraints) {
+            periodIds.push(getPeriodId(constraint.limit, timestamp));
+        }
+    } else {
+        const transferPolicy = spec.transferPolicies.find(
+            (policy) => getAddress(policy.target) === target,
+        );
+        if (!transferPolicy) {
+            throw new Error(`No transfer policy for ${target}`);
+        }
+
+        periodIds.push(getPeriodId(transferPolicy.valueLimit, timestamp));
+    }
+
+    return periodIds;
+}
+
+// abi.encode(spec, periodIds), the hook data of the SessionKeyValidator
+export function encodeSessionHookData(
+    spec: SessionSpec,
+    periodIds: Array<BigNumberish>,
+): string {
+    return AbiCoder.defaultAbiCoder().encode(
+        [SESSION_SPEC_TYPE, 'uint64[]'],
+        [spec, periodIds],
+    );
+}
+
+// Signs with a session key, checked by the SessionKeyValidator's validation hook
+export class SessionKeySigner implements AccountSigner {
+    private signer: K1Signer;
+    private spec: SessionSpec;
+
+    constructor(sessionKey: BaseWallet, spec: SessionSpec) {
+        this.signer = new K1Signer(sessionKey);
+        this.spec = spec;
+    }
+
+    public async sign(digest: BytesLike): Promise<string> {
+        return await this.signer.sign(digest);
+    }
+
+    // handleValidation reverts unless the hook saw a valid signature
+    public dummySignature(): null {
+        return null;
+    }
+
+    /**
+     * Bound of the gas of the validation hook, which the dummy estimate skips
+     * @dev 150k decodes the spec and checks the signer, 50k updates each
+     * limit, the session key validator tests check it with estimateGas
+     */
+    public verificationGas(): bigint {
+        let limits = 2;
+        for (const policy of this.spec.callPolicies) {
+            limits += policy.constraints.length;
+        }
+
+        return 150_000n + BigInt(limits) * 50_000n;
+    }
+}
+
+export async function prepareSessionTx(
+    provider: Provider,
+    account: Contract,
+    tx: types.TransactionLike,
+    sessionValidatorAddress: string,
+    sessionKey: BaseWallet,
+    spec: SessionSpec,
+    paymasterParams?: types.PaymasterParams,
+    overrides: FeeOverrides = {},
+): Promise<types.TransactionLike> {
+    const block = await provider.getBlock('latest');
+    const periodIds = getPeriodIds(spec, tx, block.timestamp);
+
+    const hookData = orderHookData(await account.listHooks(true), [
+        {
+            hook: sessionValidatorAddress,
+            data: encodeSessionHookData(spec, periodIds),
+        },
+    ]);
+
+    return await new AGWTransactionBuilder(
+        provider,
+        new SessionKeySigner(sessionKey, spec),
+        sessionValidatorAddress,
+    ).populate(account, tx, hookData, paymasterParams, overrides);
+}
+
+function usageLimitFromResult(limit: Result): UsageLimit {
+    return {
+        limitType: Number(limit.limitType),
+        limit: BigInt(limit.limit),
+        period: BigInt(limit.period),
+    };
+}
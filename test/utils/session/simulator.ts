@@ -0,0 +1,377 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BigNumberish } from 'ethers';
+import {
+    ZeroAddress,
+    dataLength,
+    dataSlice,
+    getAddress,
+    toBigInt,
+} from 'ethers';
+import type { Contract, Provider, types } from 'zksync-ethers';
+
+import type {
+    Constraint,
+    SessionSpec,
+    SessionState,
+    UsageLimit,
+} from './session';
+import {
+    Condition,
+    LimitType,
+    SessionStatus,
+    getPeriodId,
+    sessionStateFromResult,
+} from './session';
+
+// IPaymasterFlow.approvalBased selector
+const APPROVAL_BASED_SELECTOR = '0x949431dc';
+
+// Revert reasons of SessionLib.Constraint.checkAndUpdate
+const CONSTRAINT_REASONS: Record<Condition, string> = {
+    [Condition.Unconstrained]: '',
+    [Condition.Equal]: 'EQUAL constraint not met',
+    [Condition.Greater]: 'GREATER constraint not met',
+    [Condition.Less]: 'LESS constraint not met',
+    [Condition.GreaterOrEqual]: 'GREATER_OR_EQUAL constraint not met',
+    [Condition.LessOrEqual]: 'LESS_OR_EQUAL constraint not met',
+    [Condition.NotEqual]: 'NOT_EQUAL constraint not met',
+};
+
+// Revert reason of the TimestampAsserter, a custom error
+export const TIMESTAMP_OUT_OF_RANGE = 'TimestampOutOfRange';
+// Out of bounds calldata slices revert without a reason
+export const CALLDATA_TOO_SHORT = 'Calldata too short for constraint';
+
+export type SessionViolation = {
+    // Revert reason of the validator, or one of the constants above
+    reason: string;
+    // Part of the spec that rejects the transaction
+    policy: 'session' | 'fee' | 'call' | 'transfer';
+    // Index in callPolicies or transferPolicies
+    policyIndex?: number;
+    // Index in the call policy's constraints
+    constraintIndex?: number;
+    // Amount counted against the limit, and what the limit had left
+    value?: bigint;
+    remaining?: bigint;
+};
+
+export type SimulationContext = {
+    // Account sending the transaction
+    account: string;
+    // Timestamp of the block the transaction is expected in
+    timestamp: BigNumberish;
+    // Period ids of the hook data, computed from the timestamp if undefined
+    periodIds?: Array<BigNumberish>;
+};
+
+/**
+ * Runs the checks of SessionKeyValidator.validationHook offline, in order
+ * @dev Returns the first failing check, or null if the session accepts the tx.
+ * Unlike the validator, the fee limit is checked without a valid signature.
+ * `state` must be the sessionState of the same spec and account.
+ */
+export function simulateSessionValidation(
+    spec: SessionSpec,
+    state: SessionState,
+    tx: types.TransactionLike,
+    context: SimulationContext,
+): SessionViolation | null {
+    if (!tx.to) {
+        throw new Error('Session transactions need a target');
+    }
+    checkStateShape(spec, state);
+
+    const account = getAddress(context.account);
+    const timestamp = BigInt(context.timestamp);
+    const target = getAddress(tx.to);
+    const value = BigInt(tx.value ?? 0);
+    const data = tx.data ?? '0x';
+    const paymasterParams = tx.customData?.paymasterParams;
+
+    const periodId = (position: number, limit: UsageLimit): bigint => {
+        if (context.periodIds === undefined) {
+            return getPeriodId(limit, timestamp);
+        }
+        if (position >= context.periodIds.length) {
+            throw new Error(`Missing period id at position ${position}`);
+        }
+        return BigInt(context.periodIds[position]);
+    };
+
+    if (getAddress(spec.signer) === ZeroAddress) {
+        return { reason: 'Invalid signer (empty)', policy: 'session' };
+    }
+    if (state.status !== SessionStatus.Active) {
+        return { reason: 'Session is not active', policy: 'session' };
+    }
+    if (timestamp > spec.expiresAt) {
+        return { reason: TIMESTAMP_OUT_OF_RANGE, policy: 'session' };
+    }
+
+    if (
+        paymasterParams &&
+        dataLength(paymasterParams.paymasterInput) >= 4 &&
+        dataSlice(paymasterParams.paymasterInput, 0, 4) ===
+            APPROVAL_BASED_SELECTOR
+    ) {
+        return {
+            reason: 'Approval based paymaster flow not allowed',
+            policy: 'session',
+        };
+    }
+
+    if (dataLength(data) >= 4) {
+        if (target === account) {
+            return { reason: 'Can not target self', policy: 'call' };
+        }
+
+        const selector = dataSlice(data, 0, 4);
+        const policyIndex = spec.callPolicies.findIndex(
+            (policy) =>
+                getAddress(policy.target) === target &&
+                policy.selector.toLowerCase() === selector,
+        );
+        if (policyIndex === -1) {
+            return {
+                reason: 'Call to this contract is not allowed',
+                policy: 'call',
+            };
+        }
+        const callPolicy = spec.callPolicies[policyIndex];
+
+        if (value > callPolicy.maxValuePerUse) {
+            return {
+                reason: 'Value exceeds limit',
+                policy: 'call',
+                policyIndex,
+                value,
+                remaining: callPolicy.maxValuePerUse,
+            };
+        }
+
+        const valueViolation = checkLimit(
+            callPolicy.valueLimit,
+            state.callValue[policyIndex].remaining,
+            value,
+            periodId(1, callPolicy.valueLimit),
+            timestamp,
+        );
+        if (valueViolation) {
+            return { ...valueViolation, policy: 'call', policyIndex };
+        }
+
+        const paramStates = paramStateOffset(spec, policyIndex);
+        let limitedConstraints = 0;
+        for (let i = 0; i < callPolicy.constraints.length; i++) {
+            const constraint = callPolicy.constraints[i];
+            const paramRemaining =
+                constraint.limit.limitType === LimitType.Unlimited
+                    ? undefined
+                    : state.callParams[paramStates + limitedConstraints++]
+                          .remaining;
+
+            const violation = checkConstraint(
+                constraint,
+                data,
+                paramRemaining,
+                periodId(i + 2, constraint.limit),
+                timestamp,
+            );
+            if (violation) {
+                return {
+                    ...violation,
+                    policy: 'call',
+                    policyIndex,
+                    constraintIndex: i,
+                };
+            }
+        }
+    } else {
+        const policyIndex = spec.transferPolicies.findIndex(
+            (policy) => getAddress(policy.target) === target,
+        );
+        if (policyIndex === -1) {
+            return {
+                reason: 'Transfer to this address is not allowed',
+                policy: 'transfer',
+            };
+        }
+        const transferPolicy = spec.transferPolicies[policyIndex];
+
+        if (value > transferPolicy.maxValuePerUse) {
+            return {
+                reason: 'Value exceeds limit',
+                policy: 'transfer',
+                policyIndex,
+                value,
+                remaining: transferPolicy.maxValuePerUse,
+            };
+        }
+
+        const valueViolation = checkLimit(
+            transferPolicy.valueLimit,
+            state.transferValue[policyIndex].remaining,
+            value,
+            periodId(1, transferPolicy.valueLimit),
+            timestamp,
+        );
+        if (valueViolation) {
+            return { ...valueViolation, policy: 'transfer', policyIndex };
+        }
+    }
+
+    // The account pays its own fees unless a paymaster is set
+    if (
+        paymasterParams &&
+        getAddress(paymasterParams.paymaster) !== ZeroAddress
+    ) {
+        if (tx.gasLimit == null || tx.maxFeePerGas == null) {
+            throw new Error(
+                'Checking the fee limit needs gasLimit and maxFeePerGas',
+            );
+        }
+        const fee = BigInt(tx.maxFeePerGas) * BigInt(tx.gasLimit);
+
+        const feeViolation = checkLimit(
+            spec.feeLimit,
+            state.feesRemaining,
+            fee,
+            periodId(0, spec.feeLimit),
+            timestamp,
+        );
+        if (feeViolation) {
+            return { ...feeViolation, policy: 'fee' };
+        }
+    }
+
+    return null;
+}
+
+// Simulates the transaction against the current session state and block
+export async function simulateSessionTx(
+    provider: Provider,
+    sessionValidator: Contract,
+    account: string,
+    spec: SessionSpec,
+    tx: types.TransactionLike,
+): Promise<SessionViolation | null> {
+    const [state, block] = await Promise.all([
+        sessionValidator.sessionState(account, spec),
+        provider.getBlock('latest'),
+    ]);
+
+    return simulateSessionValidation(spec, sessionStateFromResult(state), tx, {
+        account,
+        timestamp: block.timestamp,
+    });
+}
+
+// Mirrors SessionLib.UsageLimit.checkAndUpdate, on the remaining of getState
+function checkLimit(
+    limit: UsageLimit,
+    remaining: bigint,
+    value: bigint,
+    periodId: bigint,
+    timestamp: bigint,
+): Omit<SessionViolation, 'policy'> | null {
+    if (limit.limitType === LimitType.Lifetime && value > remaining) {
+        return { reason: 'Lifetime limit exceeded', value, remaining };
+    }
+    if (limit.limitType === LimitType.Allowance) {
+        // getState reports the allowance of the current period only
+        if (periodId !== getPeriodId(limit, timestamp)) {
+            return { reason: TIMESTAMP_OUT_OF_RANGE };
+        }
+        if (value > remaining) {
+            return { reason: 'Allowance limit exceeded', value, remaining };
+        }
+    }
+
+    return null;
+}
+
+// Mirrors SessionLib.Constraint.checkAndUpdate
+function checkConstraint(
+    constraint: Constraint,
+    data: string,
+    remaining: bigint | undefined,
+    periodId: bigint,
+    timestamp: bigint,
+): Omit<SessionViolation, 'policy'> | null {
+    const offset = 4 + Number(constraint.index) * 32;
+    if (dataLength(data) < offset + 32) {
+        return { reason: CALLDATA_TOO_SHORT };
+    }
+
+    // bytes32 comparisons in Solidity are unsigned
+    const param = toBigInt(dataSlice(data, offset, offset + 32));
+    const refValue = toBigInt(constraint.refValue);
+
+    let met: boolean;
+    switch (constraint.condition) {
+        case Condition.Equal:
+            met = param === refValue;
+            break;
+        case Condition.Greater:
+            met = param > refValue;
+            break;
+        case Condition.Less:
+            met = param < refValue;
+            break;
+        case Condition.GreaterOrEqual:
+            met = param >= refValue;
+            break;
+        case Condition.LessOrEqual:
+            met = param <= refValue;
+            break;
+        case Condition.NotEqual:
+            met = param !== refValue;
+            break;
+        default:
+            met = true;
+    }
+    if (!met) {
+        return { reason: CONSTRAINT_REASONS[constraint.condition] };
+    }
+
+    if (remaining === undefined) {
+        return null;
+    }
+    return checkLimit(constraint.limit, remaining, param, periodId, timestamp);
+}
+
+// Position of the call policy's first limited constraint in state.callParams
+function paramStateOffset(spec: SessionSpec, policyIndex: number): number {
+    let offset = 0;
+    for (let i = 0; i < policyIndex; i++) {
+        offset += limitedConstraints(spec, i);
+    }
+    return offset;
+}
+
+// getState only reports constraints that are not Unlimited
+function limitedConstraints(spec: SessionSpec, policyIndex: number): number {
+    return spec.callPolicies[policyIndex].constraints.filter(
+        (constraint) => constraint.limit.limitType !== LimitType.Unlimited,
+    ).length;
+}
+
+function checkStateShape(spec: SessionSpec, state: SessionState): void {
+    let callParams = 0;
+    for (let i = 0; i < spec.callPolicies.length; i++) {
+        callParams += limitedConstraints(spec, i);
+    }
+
+    if (
+        state.transferValue.length !== spec.transferPolicies.length ||
+        state.callValue.length !== spec.callPolicies.length ||
+        state.callParams.length !== callParams
+    ) {
+        throw new Error('Session state does not match the session spec');
+    }
+}
@@ -0,0 +1,203 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { BytesLike, Result } from 'ethers';
+import { AbiCoder, getAddress, hexlify, isAddress, isBytesLike } from 'ethers';
+
+// Wire formats defined by SignatureDecoder.sol
+const TRANSACTION_SIGNATURE_TYPES = ['bytes', 'address', 'bytes[]'];
+const ERC1271_SIGNATURE_TYPES = ['bytes', 'address'];
+const OUTSIDE_SIGNATURE_TYPES = ['bytes[]'];
+
+// transaction.signature of a transaction validated by the bootloader
+export type TransactionSignature = {
+    signature: string;
+    validator: string;
+    hookData: Array<string>;
+};
+
+// signatureAndValidator argument of isValidSignature
+export type ERC1271Signature = {
+    signature: string;
+    validator: string;
+};
+
+// Receives signatures SignatureDecoder accepts that no encoder would produce
+export type WarningHandler = (warning: string) => void;
+
+// Hook data for a single validation hook of the account
+export type HookDataEntry = {
+    hook: string;
+    data: string;
+};
+
+export function encodeTransactionSignature(
+    signature: BytesLike,
+    validator: string,
+    hookData: Array<BytesLike> = [],
+): string {
+    return AbiCoder.defaultAbiCoder().encode(TRANSACTION_SIGNATURE_TYPES, [
+        checkBytes(signature, 'signature'),
+        checkAddress(validator, 'validator'),
+        hookData.map((data, i) => checkBytes(data, `hookData[${i}]`)),
+    ]);
+}
+
+export function decodeTransactionSignature(
+    data: BytesLike,
+    onWarning: WarningHandler = console.warn,
+): TransactionSignature {
+    const [signature, validator, hookData] = decodeLikeSolidity(
+        TRANSACTION_SIGNATURE_TYPES,
+        data,
+        'transaction signature',
+        onWarning,
+    );
+
+    return {
+        signature,
+        validator,
+        hookData: Array.from(hookData),
+    };
+}
+
+export function encodeERC1271Signature(
+    signature: BytesLike,
+    validator: string,
+): string {
+    return AbiCoder.defaultAbiCoder().encode(ERC1271_SIGNATURE_TYPES, [
+        checkBytes(signature, 'signature'),
+        checkAddress(validator, 'validator'),
+    ]);
+}
+
+export function decodeERC1271Signature(
+    data: BytesLike,
+    onWarning: WarningHandler = console.warn,
+): ERC1271Signature {
+    const [signature, validator] = decodeLikeSolidity(
+        ERC1271_SIGNATURE_TYPES,
+        data,
+        'ERC-1271 signature',
+        onWarning,
+    );
+
+    return { signature, validator };
+}
+
+export function encodeOutsideSignature(hookData: Array<BytesLike> = []): string {
+    return AbiCoder.defaultAbiCoder().encode(OUTSIDE_SIGNATURE_TYPES, [
+        hookData.map((data, i) => checkBytes(data, `hookData[${i}]`)),
+    ]);
+}
+
+export function decodeOutsideSignature(
+    data: BytesLike,
+    onWarning: WarningHandler = console.warn,
+): Array<string> {
+    const [hookData] = decodeLikeSolidity(
+        OUTSIDE_SIGNATURE_TYPES,
+        data,
+        'outside transaction signature',
+        onWarning,
+    );
+
+    return Array.from(hookData);
+}
+
+/**
+ * Orders hook data entries the way runValidationHooks consumes them
+ * @param validationHooks - Result of account.listHooks(true)
+ * @param entries         - Hook data keyed by hook address, missing hooks get empty data
+ */
+export function orderHookData(
+    validationHooks: Array<string>,
+    entries: Array<HookDataEntry>,
+): Array<string> {
+    const hooks = validationHooks.map((hook) => getAddress(hook));
+    const dataByHook = new Map<string, string>();
+
+    for (const entry of entries) {
+        const hook = checkAddress(entry.hook, 'hook');
+        if (!hooks.includes(hook)) {
+            throw new Error(`${hook} is not a validation hook of the account`);
+        }
+        if (dataByHook.has(hook)) {
+            throw new Error(`Duplicate hook data for ${hook}`);
+        }
+        dataByHook.set(hook, checkBytes(entry.data, `hook data of ${hook}`));
+    }
+
+    return hooks.map((hook) => dataByHook.get(hook) ?? '0x');
+}
+
+/**
+ * Labels decoded hook data with the hooks that receive it
+ * @param validationHooks - Result of account.listHooks(true)
+ * @param hookData        - Positional hook data from a signature
+ */
+export function labelHookData(
+    validationHooks: Array<string>,
+    hookData: Array<BytesLike>,
+): Array<HookDataEntry> {
+    if (validationHooks.length !== hookData.length) {
+        throw new Error(
+            `Hook data length ${hookData.length} does not match ${validationHooks.length} validation hooks`,
+        );
+    }
+
+    return validationHooks.map((hook, i) => ({
+        hook: getAddress(hook),
+        data: hexlify(hookData[i]),
+    }));
+}
+
+/**
+ * Decodes like abi.decode, which ignores bytes after the encoded values
+ * @dev Data that does not re-encode to the same bytes is only a warning,
+ * as the account accepts it the same way
+ */
+function decodeLikeSolidity(
+    types: Array<string>,
+    data: BytesLike,
+    name: string,
+    onWarning: WarningHandler,
+): Result {
+    if (!isBytesLike(data)) {
+        throw new Error(`Malformed ${name}: not a hex string`);
+    }
+
+    const abiCoder = AbiCoder.defaultAbiCoder();
+    let decoded: Result;
+    try {
+        decoded = abiCoder.decode(types, data);
+    } catch (error) {
+        throw new Error(
+            `Malformed ${name}: cannot decode as (${types.join(',')})`,
+        );
+    }
+
+    if (abiCoder.encode(types, decoded) !== hexlify(data).toLowerCase()) {
+        onWarning(
+            `Non-canonical ${name}: not a canonical (${types.join(',')}) encoding`,
+        );
+    }
+
+    return decoded;
+}
+
+function checkAddress(value: string, name: string): string {
+    if (!isAddress(value)) {
+        throw new Error(`Invalid ${name} address: ${value}`);
+    }
+    return getAddress(value);
+}
+
+function checkBytes(value: BytesLike, name: string): string {
+    if (!isBytesLike(value)) {
+        throw new Error(`Invalid ${name}: not a hex string`);
+    }
+    return hexlify(value);
+}
@@ -0,0 +1,149 @@
+/**
+ * Copyright Clave - All Rights Reserved
+ * Unauthorized copying of this file, via any medium is strictly prohibited
+ * Proprietary and confidential
+ */
+import type { ec } from 'elliptic';
+import type { BaseWallet, BytesLike } from 'ethers';
+import { ZeroHash, hexlify, sha256 } from 'ethers';
+
+import { sign } from './p256';
+import type { Assertion, AssertionOptions } from './passkey';
+import {
+    CLAVE_ASSERTION,
+    encodeCompactSignature,
+    encodeFatSignature,
+    getAuthenticatorData,
+    getClientDataJSON,
+    signAssertion,
+} from './passkey';
+
+// 32 byte words for dummy signatures, the low one is a valid 's' on both curves
+const DUMMY_WORD = 'c1ae'.repeat(16);
+const DUMMY_LOW_WORD = '0' + DUMMY_WORD.slice(1);
+
+// Upper bounds of the extra gas validateSignature takes to verify a valid
+// signature instead of a dummy one. The TEE and passkey validator tests check
+// them against estimateGas.
+
+// P-256 verification of the signature
+const R1_VERIFICATION_GAS = 25_000n;
+// P-256 verification plus parsing the authenticator and client data
+const PASSKEY_VERIFICATION_GAS = 50_000n;
+
+/**
+ * Signs digests in the format the matching validator expects,
+ * the result is the `signature` part of the AGW signature envelope
+ */
+export interface AccountSigner {
+    sign(digest: BytesLike): Promise<string>;
+    // Signature of the same shape as `sign` results, used to estimate gas,
+    // null if validation can not run without a real signature
+    dummySignature(): string | null;
+    // Validation gas a real signature costs on top of the dummy one
+    verificationGas(): bigint;
+}
+
+// Signs with a secp256k1 key, verified by the EOAValidator
+export class K1Signer implements AccountSigner {
+    private wallet: BaseWallet;
+
+    constructor(wallet: BaseWallet) {
+        this.wallet = wallet;
+    }
+
+    public async sign(digest: BytesLike): Promise<string> {
+        return this.wallet.signingKey.sign(digest).serialized;
+    }
+
+    public dummySignature(): string {
+        return '0x' + DUMMY_WORD + DUMMY_LOW_WORD + '1b';
+    }
+
+    public verificationGas(): bigint {
+        return 0n;
+    }
+}
+
+// Signs with a secp256r1 key, verified by the TEEValidator
+export class R1Signer implements AccountSigner {
+    private keyPair: ec.KeyPair;
+
+    constructor(keyPair: ec.KeyPair) {
+        this.keyPair = keyPair;
+    }
+
+    public async sign(digest: BytesLike): Promise<string> {
+        return sign(sha256(digest), this.keyPair);
+    }
+
+    public dummySignature(): string {
+        return '0x' + DUMMY_WORD + DUMMY_LOW_WORD;
+    }
+
+    public verificationGas(): bigint {
+        return R1_VERIFICATION_GAS;
+    }
+}
+
+// Signs WebAuthn assertions with a secp256r1 key, verified by the PasskeyValidator
+export class PasskeySigner implements AccountSigner {
+    private keyPair: ec.KeyPair;
+    private options: AssertionOptions;
+    private format: 'compact' | 'fat';
+
+    /**
+     * @param options - Authenticator and client data of the assertions
+     * @param format  - Compact signatures only fit the getclave.io assertions
+     */
+    constructor(
+        keyPair: ec.KeyPair,
+        options: AssertionOptions = CLAVE_ASSERTION,
+        format: 'compact' | 'fat' = 'compact',
+    ) {
+        this.keyPair = keyPair;
+        this.options = options;
+        this.format = format;
+    }
+
+    public async sign(digest: BytesLike): Promise<string> {
+        return this.encode(
+            signAssertion(hexlify(digest), this.keyPair, this.options),
+        );
+    }
+
+    public dummySignature(): string {
+        return this.encode({
+            authenticatorData:
+                '0x' + getAuthenticatorData(this.options).toString('hex'),
+            clientDataJSON: getClientDataJSON(ZeroHash, this.options),
+            r: '0x' + DUMMY_WORD,
+            s: '0x' + DUMMY_LOW_WORD,
+        });
+    }
+
+    public verificationGas(): bigint {
+        return PASSKEY_VERIFICATION_GAS;
+    }
+
+    private encode(assertion: Assertion): string {
+        return this.format === 'compact'
+            ? encodeCompactSignature(assertion)
+            : encodeFatSignature(assertion);
+    }
+}
+
+// Produces a constant signature, accepted only by the MockValidator
+export class MockSigner implements AccountSigner {
+    public async sign(): Promise<string> {
+        return this.dummySignature();
+    }
+
+    public dummySignature(): string {
+        return '0x' + 'C1AE'.repeat(32);
+    }
+
+    public verificationGas(): bigint {
+        return 0n;
+    }
+}
@@ -4,14 +4,25 @@
  * Proprietary and confidential
  */
 import type { ec } from 'elliptic';
-import type { BigNumberish, HDNodeWallet } from 'ethers';
-import { ethers, parseEther, sha256 } from 'ethers';
+import type {
+    BigNumberish,
+    HDNodeWallet,
+    JsonRpcTransactionRequest,
+} from 'ethers';
+import {
+    ethers,
+    getBytes,
+    hexlify,
+    parseEther,
+    zeroPadValue,
+} from 'ethers';
 import type { Contract, Provider, types } from 'zksync-ethers';
 import { EIP712Signer, utils } from 'zksync-ethers';
 
 import type { CallStruct } from '../../typechain-types/contracts/batch/BatchCaller';
-import { sign } from './p256';
-import { getSignedData } from './passkey';
+import type { AccountSigner } from './signers';
+import { K1Signer, MockSigner, PasskeySigner, R1Signer } from './signers';
+import { encodeTransactionSignature } from './signatures';
 
 export const ethTransfer = (
     to: string,
@@ -24,35 +35,280 @@ export const ethTransfer = (
     };
 };
 
+// Transaction struct of the system contracts' TransactionHelper
+export type TransactionStruct = {
+    txType: bigint;
+    from: bigint;
+    to: bigint;
+    gasLimit: bigint;
+    gasPerPubdataByteLimit: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+    paymaster: bigint;
+    nonce: bigint;
+    value: bigint;
+    reserved: [bigint, bigint, bigint, bigint];
+    data: string;
+    signature: string;
+    factoryDeps: Array<string>;
+    paymasterInput: string;
+    reservedDynamic: string;
+};
+
+// Converts a populated transaction to the struct accounts and hooks receive
+export function toTransactionStruct(
+    tx: types.TransactionLike,
+): TransactionStruct {
+    if (!tx.from || !tx.to) {
+        throw new Error('Transaction struct needs both from and to');
+    }
+    const paymasterParams = tx.customData?.paymasterParams;
+
+    return {
+        txType: BigInt(tx.type ?? utils.EIP712_TX_TYPE),
+        from: BigInt(tx.from),
+        to: BigInt(tx.to),
+        gasLimit: BigInt(tx.gasLimit ?? 0),
+        gasPerPubdataByteLimit: BigInt(
+            tx.customData?.gasPerPubdata ?? utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
+        ),
+        maxFeePerGas: BigInt(tx.maxFeePerGas ?? tx.gasPrice ?? 0),
+        maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas ?? 0),
+        paymaster: BigInt(paymasterParams?.paymaster ?? 0),
+        nonce: BigInt(tx.nonce ?? 0),
+        value: BigInt(tx.value ?? 0),
+        reserved: [0n, 0n, 0n, 0n],
+        data: hexlify(tx.data ?? '0x'),
+        signature: hexlify(tx.customData?.customSignature ?? '0x'),
+        factoryDeps: (tx.customData?.factoryDeps ?? []).map((dep) =>
+            hexlify(utils.hashBytecode(dep)),
+        ),
+        paymasterInput: hexlify(paymasterParams?.paymasterInput ?? '0x'),
+        reservedDynamic: '0x',
+    };
+}
+
+// Fee fields that take precedence over the estimated ones
+export type FeeOverrides = {
+    gasLimit?: BigNumberish;
+    maxFeePerGas?: BigNumberish;
+    maxPriorityFeePerGas?: BigNumberish;
+    gasPerPubdata?: BigNumberish;
+    // Nonce reserved by a NonceManager, instead of the account's current one
+    nonce?: BigNumberish;
+};
+
+// Builds and signs AGW account transactions with any validator's signer
+export class AGWTransactionBuilder {
+    private provider: Provider;
+    private signer: AccountSigner;
+    private validatorAddress: string;
+
+    constructor(
+        provider: Provider,
+        signer: AccountSigner,
+        validatorAddress: string,
+    ) {
+        this.provider = provider;
+        this.signer = signer;
+        this.validatorAddress = validatorAddress;
+    }
+
+    /**
+     * Estimates fees with the signer's dummy signature in place of a real one
+     * @dev Sends the full signature envelope, otherwise the node substitutes
+     * a 65 byte signature and the account skips validation entirely
+     */
+    public async estimateFee(
+        account: Contract,
+        tx: types.TransactionLike,
+        hookData: Array<ethers.BytesLike> = [],
+        paymasterParams?: types.PaymasterParams,
+        overrides: FeeOverrides = {},
+    ): Promise<types.Fee> {
+        const request = this.provider.getRpcTransaction({
+            ...tx,
+            value: tx.value ?? parseEther('0'),
+            from: await account.getAddress(),
+            customData: {
+                gasPerPubdata:
+                    overrides.gasPerPubdata ??
+                    utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
+                paymasterParams,
+            },
+        }) as JsonRpcTransactionRequest & { eip712Meta: object };
+
+        // The account skips validation for 65 byte signatures, which leaves
+        // the validation cost to the signer's verificationGas
+        const dummySignature = this.signer.dummySignature();
+        const customSignature =
+            dummySignature === null
+                ? zeroPadValue('0x', 65)
+                : encodeTransactionSignature(
+                      dummySignature,
+                      this.validatorAddress,
+                      hookData,
+                  );
+        request.eip712Meta = {
+            ...request.eip712Meta,
+            customSignature: Array.from(getBytes(customSignature)),
+        };
+
+        const fee = await this.provider.send('zks_estimateFee', [request]);
+
+        return {
+            gasLimit: BigInt(fee.gas_limit) + this.signer.verificationGas(),
+            gasPerPubdataLimit: BigInt(fee.gas_per_pubdata_limit),
+            maxPriorityFeePerGas: BigInt(fee.max_priority_fee_per_gas),
+            maxFeePerGas: BigInt(fee.max_fee_per_gas),
+        };
+    }
+
+    /**
+     * Populates and signs the transaction
+     * @dev Estimates gas unless overrides.gasLimit is given, which allows
+     * building transactions that are expected to revert
+     */
+    public async populate(
+        account: Contract,
+        tx: types.TransactionLike,
+        hookData: Array<ethers.BytesLike> = [],
+        paymasterParams?: types.PaymasterParams,
+        overrides: FeeOverrides = {},
+    ): Promise<types.TransactionLike> {
+        const accountAddress = await account.getAddress();
+
+        let fee: types.Fee;
+        if (overrides.gasLimit === undefined) {
+            fee = await this.estimateFee(
+                account,
+                tx,
+                hookData,
+                paymasterParams,
+                overrides,
+            );
+        } else {
+            const gasPrice = await this.provider.getGasPrice();
+            fee = {
+                gasLimit: BigInt(overrides.gasLimit),
+                gasPerPubdataLimit: BigInt(utils.DEFAULT_GAS_PER_PUBDATA_LIMIT),
+                maxPriorityFeePerGas: gasPrice,
+                maxFeePerGas: gasPrice,
+            };
+        }
+
+        tx = {
+            ...tx,
+            value: tx.value ?? parseEther('0'),
+            from: accountAddress,
+            nonce:
+                overrides.nonce === undefined
+                    ? await this.provider.getTransactionCount(accountAddress)
+                    : Number(overrides.nonce),
+            gasLimit: fee.gasLimit,
+            maxFeePerGas: overrides.maxFeePerGas ?? fee.maxFeePerGas,
+            maxPriorityFeePerGas:
+                overrides.maxPriorityFeePerGas ?? fee.maxPriorityFeePerGas,
+            chainId: (await this.provider.getNetwork()).chainId,
+            type: 113,
+            customData: {
+                gasPerPubdata: overrides.gasPerPubdata ?? fee.gasPerPubdataLimit,
+                paymasterParams,
+            } as types.Eip712Meta,
+        };
+
+        const signedTxHash = EIP712Signer.getSignedDigest(tx);
+        const signature = await this.signer.sign(signedTxHash);
+
+        tx.customData = {
+            ...tx.customData,
+            customSignature: encodeTransactionSignature(
+                signature,
+                this.validatorAddress,
+                hookData,
+            ),
+        };
+
+        return tx;
+    }
+
+    public async populateBatch(
+        account: Contract,
+        calls: Array<CallStruct>,
+        hookData: Array<ethers.BytesLike> = [],
+        paymasterParams?: types.PaymasterParams,
+        overrides: FeeOverrides = {},
+    ): Promise<types.TransactionLike> {
+        let totalValue = 0n;
+        for (const call of calls) {
+            totalValue += BigInt(call.value);
+        }
+
+        const tx = {
+            to: await account.getAddress(),
+            data: account.interface.encodeFunctionData('batchCall', [calls]),
+            value: totalValue,
+        };
+
+        return await this.populate(
+            account,
+            tx,
+            hookData,
+            paymasterParams,
+            overrides,
+        );
+    }
+
+    public async build(
+        account: Contract,
+        tx: types.TransactionLike,
+        hookData: Array<ethers.BytesLike> = [],
+        paymasterParams?: types.PaymasterParams,
+        overrides: FeeOverrides = {},
+    ): Promise<string> {
+        return utils.serializeEip712(
+            await this.populate(
+                account,
+                tx,
+                hookData,
+                paymasterParams,
+                overrides,
+            ),
+        );
+    }
+
+    public async buildBatch(
+        account: Contract,
+        calls: Array<CallStruct>,
+        hookData: Array<ethers.BytesLike> = [],
+        paymasterParams?: types.PaymasterParams,
+        overrides: FeeOverrides = {},
+    ): Promise<string> {
+        return utils.serializeEip712(
+            await this.populateBatch(
+                account,
+                calls,
+                hookData,
+                paymasterParams,
+                overrides,
+            ),
+        );
+    }
+}
+
 export async function prepareMockTx(
     provider: Provider,
     account: Contract,
     tx: types.TransactionLike,
     validatorAddress: string,
     paymasterParams?: types.PaymasterParams,
+    overrides: FeeOverrides = {},
 ): Promise<types.TransactionLike> {
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-    const signature = abiCoder.encode(
-        ['bytes', 'address', 'bytes[]'],
-        ['0x' + 'C1AE'.repeat(32), validatorAddress, []],
-    );
-
-    tx = {
-        ...tx,
-        from: await account.getAddress(),
-        nonce: await provider.getTransactionCount(await account.getAddress()),
-        gasLimit: 30_000_000,
-        gasPrice: await provider.getGasPrice(),
-        chainId: (await provider.getNetwork()).chainId,
-        type: 113,
-        customData: {
-            gasPerPubdata: utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
-            customSignature: signature,
-            paymasterParams: paymasterParams,
-        } as types.Eip712Meta,
-    };
-
-    return tx;
+    return await new AGWTransactionBuilder(
+        provider,
+        new MockSigner(),
+        validatorAddress,
+    ).populate(account, tx, [], paymasterParams, overrides);
 }
 
 export async function prepareMockBatchTx(
@@ -62,43 +318,13 @@ export async function prepareMockBatchTx(
     validatorAddress: string,
     hookData: Array<ethers.BytesLike> = [],
     paymasterParams?: types.PaymasterParams,
+    overrides: FeeOverrides = {},
 ): Promise<types.TransactionLike> {
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-    
-    let totalValue: BigNumberish = BigInt(0);
-    for (const call of calls) {
-        totalValue += BigInt(call.value);
-    }
-
-    const accountAddress = await account.getAddress();
-
-    const tx = {
-        to: accountAddress,
-        from: accountAddress,
-        nonce: await provider.getTransactionCount(accountAddress),
-        gasLimit: 30_000_000,
-        gasPrice: await provider.getGasPrice(),
-        data: account.interface.encodeFunctionData("batchCall", [calls]),
-        value: totalValue,
-        chainId: (await provider.getNetwork()).chainId,
-        type: 113,
-        customData: {
-            gasPerPubdata: utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
-            paymasterParams,
-        } as types.Eip712Meta,
-    };
-
-    const signature = abiCoder.encode(
-        ['bytes', 'address', 'bytes[]'],
-        ['0x' + 'C1AE'.repeat(32), validatorAddress, hookData],
-    );
-
-    tx.customData = {
-        ...tx.customData,
-        customSignature: signature,
-    };
-
-    return tx;
+    return await new AGWTransactionBuilder(
+        provider,
+        new MockSigner(),
+        validatorAddress,
+    ).populateBatch(account, calls, hookData, paymasterParams, overrides);
 }
 
 export async function prepareTeeTx(
@@ -109,41 +335,13 @@ export async function prepareTeeTx(
     keyPair: ec.KeyPair,
     hookData: Array<ethers.BytesLike> = [],
     paymasterParams?: types.PaymasterParams,
+    overrides: FeeOverrides = {},
 ): Promise<types.TransactionLike> {
-    if (tx.value == undefined) {
-        tx.value = parseEther('0');
-    }
-
-    tx = {
-        ...tx,
-        from: await account.getAddress(),
-        nonce: await provider.getTransactionCount(await account.getAddress()),
-        gasLimit: 30_000_000,
-        gasPrice: await provider.getGasPrice(),
-        chainId: (await provider.getNetwork()).chainId,
-        type: 113,
-        customData: {
-            gasPerPubdata: utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
-            paymasterParams: paymasterParams,
-        } as types.Eip712Meta,
-    };
-
-    const signedTxHash = EIP712Signer.getSignedDigest(tx);
-
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-    let signature = sign(sha256(signedTxHash.toString()), keyPair);
-
-    signature = abiCoder.encode(
-        ['bytes', 'address', 'bytes[]'],
-        [signature, validatorAddress, hookData],
-    );
-
-    tx.customData = {
-        ...tx.customData,
-        customSignature: signature,
-    };
-
-    return tx;
+    return await new AGWTransactionBuilder(
+        provider,
+        new R1Signer(keyPair),
+        validatorAddress,
+    ).populate(account, tx, hookData, paymasterParams, overrides);
 }
 
 export async function prepareBatchTx(
@@ -155,52 +353,15 @@ export async function prepareBatchTx(
     hookData: Array<ethers.BytesLike> = [],
     paymasterParams?: types.PaymasterParams,
     wallet?: HDNodeWallet,
+    overrides: FeeOverrides = {},
 ): Promise<types.TransactionLike> {
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-    
-    let totalValue: BigNumberish = 0n;
-    for (const call of calls) {
-        totalValue += BigInt(call.value);
-    }
+    const signer = wallet ? new K1Signer(wallet) : new R1Signer(keyPair);
 
-    const accountAddress = await account.getAddress();
-    
-    const tx = {
-        to: accountAddress,
-        from: accountAddress,
-        nonce: await provider.getTransactionCount(accountAddress),
-        gasLimit: 30_000_000,
-        gasPrice: await provider.getGasPrice(),
-        data: account.interface.encodeFunctionData("batchCall", [calls]),
-        value: totalValue,
-        chainId: (await provider.getNetwork()).chainId,
-        type: 113,
-        customData: {
-            gasPerPubdata: utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
-            paymasterParams,
-        } as types.Eip712Meta,
-    };
-
-    const signedTxHash = EIP712Signer.getSignedDigest(tx);
-
-    let signature: string;
-    if (wallet) {
-        signature = wallet.signingKey.sign(signedTxHash).serialized;
-    } else {
-        signature = sign(sha256(signedTxHash.toString()), keyPair);
-    }
-
-    signature = abiCoder.encode(
-        ['bytes', 'address', 'bytes[]'],
-        [signature, validatorAddress, hookData],
-    );
-
-    tx.customData = {
-        ...tx.customData,
-        customSignature: signature,
-    };
-
-    return tx;
+    return await new AGWTransactionBuilder(
+        provider,
+        signer,
+        validatorAddress,
+    ).populateBatch(account, calls, hookData, paymasterParams, overrides);
 }
 
 export async function prepareEOATx(
@@ -211,41 +372,13 @@ export async function prepareEOATx(
     wallet: HDNodeWallet,
     hookData: Array<ethers.BytesLike> = [],
     paymasterParams?: types.PaymasterParams,
+    overrides: FeeOverrides = {},
 ): Promise<types.TransactionLike> {
-    if (tx.value == undefined) {
-        tx.value = parseEther('0');
-    }
-
-    tx = {
-        ...tx,
-        from: await account.getAddress(),
-        nonce: await provider.getTransactionCount(await account.getAddress()),
-        gasLimit: 30_000_000,
-        gasPrice: await provider.getGasPrice(),
-        chainId: (await provider.getNetwork()).chainId,
-        type: 113,
-        customData: {
-            gasPerPubdata: utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
-            paymasterParams: paymasterParams,
-        } as types.Eip712Meta,
-    };
-
-    const signedTxHash = EIP712Signer.getSignedDigest(tx);
-
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-    let signature = wallet.signingKey.sign(signedTxHash).serialized;
-
-    signature = abiCoder.encode(
-        ['bytes', 'address', 'bytes[]'],
-        [signature, validatorAddress, hookData],
-    );
-
-    tx.customData = {
-        ...tx.customData,
-        customSignature: signature,
-    };
-
-    return tx;
+    return await new AGWTransactionBuilder(
+        provider,
+        new K1Signer(wallet),
+        validatorAddress,
+    ).populate(account, tx, hookData, paymasterParams, overrides);
 }
 
 export async function preparePasskeyTx(
@@ -256,59 +389,11 @@ export async function preparePasskeyTx(
     keyPair: ec.KeyPair,
     hookData: Array<ethers.BytesLike> = [],
     paymasterParams?: types.PaymasterParams,
+    overrides: FeeOverrides = {},
 ): Promise<types.TransactionLike> {
-    if (tx.value == undefined) {
-        tx.value = parseEther('0');
-    }
-
-    tx = {
-        ...tx,
-        from: await account.getAddress(),
-        nonce: await provider.getTransactionCount(await account.getAddress()),
-        gasLimit: 30_000_000,
-        gasPrice: await provider.getGasPrice(),
-        chainId: (await provider.getNetwork()).chainId,
-        type: 113,
-        customData: {
-            gasPerPubdata: utils.DEFAULT_GAS_PER_PUBDATA_LIMIT,
-            paymasterParams: paymasterParams,
-        } as types.Eip712Meta,
-    };
-
-    const signedTxHash = EIP712Signer.getSignedDigest(tx);
-
-    const abiCoder = ethers.AbiCoder.defaultAbiCoder();
-    let signature = sign(getSignedData(signedTxHash.toString()), keyPair);
-    // Perform malleability check and invert 's' if it's too large
-    const rs = signature.slice(2);
-    const r = '0x' + rs.slice(0, 64);
-    let s = BigInt('0x' + rs.slice(64, 128));
-
-    // Maximum allowed value for 's' in secp256r1
-    const lowSmax = BigInt(
-        '0x7fffffff800000007fffffffffffffffde737d56d38bcf4279dce5617e3192a8',
-    );
-
-    if (s > lowSmax) {
-        // If 's' is too large, invert it
-        s =
-            BigInt(
-                '0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551',
-            ) - s;
-        // Reconstruct the signature with inverted 's'
-        signature = r + s.toString(16).padStart(64, '0');
-    }
-    signature = '0x01' + signature.slice(2);
-
-    signature = abiCoder.encode(
-        ['bytes', 'address', 'bytes[]'],
-        [signature, validatorAddress, hookData],
-    );
-
-    tx.customData = {
-        ...tx.customData,
-        customSignature: signature,
-    };
-
-    return tx;
+    return await new AGWTransactionBuilder(
+        provider,
+        new PasskeySigner(keyPair),
+        validatorAddress,
+    ).populate(account, tx, hookData, paymasterParams, overrides);
 }